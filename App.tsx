@@ -1,64 +1,188 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { HashRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { HashRouter, Routes, Route, Link, Navigate, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Button } from './components/Button';
 import { StoryPreview } from './components/StoryPreview';
-import { PhotoUploader, ProcessedPhoto } from './components/PhotoUploader';
-import { getLocalEvents, createGuideChat, analyzeUploadedImage, extractPlaceFromText, identifyPlaceFromCoords } from './services/geminiService';
-import { getCurrentPosition } from './services/geoService';
-import { Coordinates, LocalEvent, Guide, User, ChatMessage, Place, GroundingSource } from './types';
-import { Chat } from '@google/genai';
+import { PhotoUploader } from './components/PhotoUploader';
+import { PublishSettings } from './components/PublishSettings';
+import { PlaceEditor } from './components/PlaceEditor';
+import { DayTimeline } from './components/DayTimeline';
+import { PhotoClusterReview } from './components/PhotoClusterReview';
+import { PhotoImage } from './components/PhotoImage';
+import { TranslationPanel } from './components/TranslationPanel';
+import { TagEditor } from './components/TagEditor';
+import { ProfileEditor } from './components/ProfileEditor';
+import { ShareDialog } from './components/ShareDialog';
+import { getLocalEvents, createGuideChat, analyzeUploadedImage, identifyPhotoCluster, identifyPlaceFromCoords, sendGuideMessage } from './services/aiClient';
+import { EVENT_CATEGORIES, EventWindow, filterEvents } from './services/eventFilters';
+import { blobToBase64, distanceKm, escapeHtml, toIsoDate } from './services/utils';
+import { buildTimeline, formatDuration, formatTime, hasSchedule } from './services/itinerary';
+import { buildRouteLegs, formatDistance, optimizePlaceOrder, summarizeRoute } from './services/routePlanner';
+import { applyGuideAction, GuideDraftState } from './services/guideActions';
+import { AI_ESTIMATE_LABEL, applyGrounding, formatRating, isMapsRating, ratingTooltip } from './services/placeGrounding';
+import { ProcessedPhoto } from './services/photoProcessor';
+import { clusterPhotos, PhotoCluster } from './services/photoClustering';
+import { applyLocationPrivacy, findPlacesNearHome, HOME_RADIUS_KM } from './services/privacy';
+import { getCityNameFromCoords, getCurrentPosition, getLocationNameForPlaces, UNKNOWN_CITY, watchPosition } from './services/geoService';
+import { downloadAmpStory } from './services/ampStoryExporter';
+import { downloadGuideAs, downloadWalkGpx, GEO_FILE_ACCEPT, GeoFormat, parseGeoFile } from './services/geoFormats';
+import { bearingDegrees, compassPoint, finishWalk, nextStop, skipStop, startWalk, updateWalk, WalkState } from './services/walkTracker';
+import { buildStoryPages } from './services/storyPages';
+import { addPlacesToDay, allPlaces, dayColor, dayHeading, mapPlaces, movePlace, removeDay, withoutPlace } from './services/guideDays';
+import { addGuideWalk, createDraftGuide, createGuideDay, deleteGuide, generateId, getChatTranscript, getGuide, LEGACY_AUTHOR_ID, listGuides, saveChatTranscript, saveGuide, savePhoto, setGuidesAuthor } from './services/guideRepository';
+import { getCurrentUser, getUserProfile, signIn, signOut, signUp, subscribeToSession, updateProfile } from './services/authService';
+import { buildSearchIndex, DistanceMeasure, distanceToGuide, formatDistanceAway, guideFacets, GuideSort, rankGuidesByDistance, searchGuides } from './services/guideSearch';
+import { tagKey } from './services/guideTags';
+import { guideLanguage, guideLanguages, languageLabel, localizeGuide } from './services/translations';
+import { loadWordPressConfig, publishGuideToWordPress, saveWordPressConfig, WordPressPublishError } from './services/wordpressPublisher';
+import { Coordinates, LocalEvent, EventCategory, Guide, GuideDay, GuideTranslation, GuideWalk, User, ChatMessage, Place, GroundingSource, GuideChange, WordPressConfig } from './types';
+import { AIChat } from './services/aiProvider';
 import L from 'leaflet';
 
-// --- MOCK DATA ---
-const MOCK_USER: User = {
-  id: 'u1',
-  name: 'Alex Traveler',
-  avatar: 'https://picsum.photos/seed/alex/100/100'
-};
+const AUTOSAVE_DELAY_MS = 800;
 
-const MOCK_GUIDES: Guide[] = [
-  {
-    id: 'g1',
-    title: 'Hidden Jazz Bars of NYC',
-    locationName: 'New York, USA',
-    author: { id: 'u2', name: 'Sarah J.', avatar: 'https://picsum.photos/seed/sarah/100/100' },
-    coverImage: 'https://picsum.photos/seed/jazz/400/800',
-    places: [
-      { id: 'p1', name: 'Blue Note', description: 'Legendary jazz club.', imageUrl: 'https://picsum.photos/seed/bluenote/400/600' }
-    ],
-    createdAt: '2023-10-15',
-    status: 'published'
-  }
-];
+const formatEventDate = (isoDate: string) =>
+  new Date(`${isoDate}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+// The signed-in user, null for a guest, undefined while the stored session is being checked
+const useCurrentUser = (): User | null | undefined => {
+  const [user, setUser] = useState<User | null | undefined>(getCurrentUser);
+  useEffect(() => subscribeToSession(setUser), []);
+  return user;
+};
 
 // --- COMPONENTS ---
 
-const Header = () => (
-  <header className="sticky top-0 z-40 bg-white/90 backdrop-blur-md border-b border-brand-200">
-    <div className="max-w-5xl mx-auto px-4 h-16 flex items-center justify-between">
-      <Link to="/" className="flex items-center gap-2">
-        <div className="w-8 h-8 bg-brand-700 rounded-lg flex items-center justify-center text-white font-serif font-bold">D</div>
-        <span className="font-serif text-xl font-bold tracking-tight text-brand-900">A DAY TODAY</span>
-      </Link>
-      <div className="flex items-center gap-4">
-        <Link to="/create">
-          <Button variant="primary" size="sm">
-            <span className="mr-2">+</span> Create Guide
-          </Button>
+const Header = () => {
+  const user = useCurrentUser();
+  const location = useLocation();
+
+  return (
+    <header className="sticky top-0 z-40 bg-white/90 backdrop-blur-md border-b border-brand-200">
+      <div className="max-w-5xl mx-auto px-4 h-16 flex items-center justify-between">
+        <Link to="/" className="flex items-center gap-2">
+          <div className="w-8 h-8 bg-brand-700 rounded-lg flex items-center justify-center text-white font-serif font-bold">D</div>
+          <span className="font-serif text-xl font-bold tracking-tight text-brand-900">A DAY TODAY</span>
         </Link>
-        <div className="w-8 h-8 rounded-full bg-brand-200 overflow-hidden border border-brand-300">
-          <img src={MOCK_USER.avatar} alt="User" />
+        <div className="flex items-center gap-4">
+          <Link to="/create">
+            <Button variant="primary" size="sm">
+              <span className="mr-2">+</span> Create Guide
+            </Button>
+          </Link>
+          {user && (
+            <>
+              <button onClick={() => signOut()} className="text-xs font-bold text-brand-500 hover:text-brand-800">Sign out</button>
+              <Link to={`/u/${user.id}`} title={user.name} className="w-8 h-8 rounded-full bg-brand-200 overflow-hidden border border-brand-300">
+                <img src={user.avatar} alt={user.name} className="w-full h-full object-cover" />
+              </Link>
+            </>
+          )}
+          {user === null && (
+            <Link to={`/signin?next=${encodeURIComponent(location.pathname)}`} className="text-sm font-bold text-brand-700 hover:text-brand-900">
+              Sign in
+            </Link>
+          )}
+        </div>
+      </div>
+    </header>
+  );
+};
+
+type GuideCardProps = {
+  guide: Guide;
+  // From the reader, when known
+  distanceKm?: number | null;
+};
+
+// A published guide in a grid: cover, city, title, tags and author
+const GuideCard: React.FC<GuideCardProps> = ({ guide, distanceKm }: GuideCardProps) => (
+  <div className="group bg-white rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-all border border-brand-100">
+    <Link to={`/guide/${guide.id}`} className="block">
+      <div className="h-64 overflow-hidden relative">
+        <PhotoImage src={guide.coverImage} alt={guide.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"/>
+        <div className="absolute top-3 left-3 bg-white/90 backdrop-blur px-2 py-1 rounded text-xs font-bold uppercase tracking-wider text-brand-800">
+          {guide.locationName}
         </div>
+        {distanceKm != null && (
+          <div className="absolute top-3 right-3 bg-brand-900/80 backdrop-blur px-2 py-1 rounded text-xs font-bold text-white">
+            {formatDistanceAway(distanceKm)}
+          </div>
+        )}
       </div>
+      <h3 className="font-serif text-xl font-bold text-brand-900 px-5 pt-5">{guide.title}</h3>
+    </Link>
+    <div className="px-5 pb-5">
+      {guide.tags && guide.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-3">
+          {guide.tags.map(tag => (
+            <Link key={tag} to={`/?tag=${encodeURIComponent(tag)}`} className="bg-brand-100 text-brand-700 hover:bg-brand-200 text-[11px] font-bold rounded-full px-2 py-0.5">
+              {tag}
+            </Link>
+          ))}
+        </div>
+      )}
+      <Link to={`/u/${guide.author.id}`} className="inline-flex items-center gap-2 mt-4 hover:underline">
+         <img src={guide.author.avatar} alt={guide.author.name} className="w-6 h-6 rounded-full object-cover" />
+         <span className="text-xs text-brand-500">by {guide.author.name}</span>
+      </Link>
     </div>
-  </header>
+  </div>
 );
 
-const GuideMap = ({ places }: { places: Place[] }) => {
+// A place's Google Maps details: rating, link and the reviews its description drew on.
+// Only a grounded rating is shown as coming from Maps; any other is the AI's own estimate.
+const PlaceMapsDetails = ({ place }: { place: Place }) => {
+  const reviews = place.grounding?.reviewSnippets?.filter(r => r.uri) || [];
+  if (place.rating === undefined && !place.mapsUri) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-brand-500">
+      {place.rating !== undefined && (
+        <span className="font-bold text-brand-700" title={ratingTooltip(place)}>
+          &#9733; {place.rating.toFixed(1)}
+          {!isMapsRating(place) && <span className="font-normal text-brand-400"> ({AI_ESTIMATE_LABEL})</span>}
+        </span>
+      )}
+      {place.mapsUri && (
+        <a href={place.mapsUri} target="_blank" rel="noopener noreferrer" className="font-bold text-brand-700 hover:underline">Open in Maps</a>
+      )}
+      {reviews.slice(0, 3).map((r, idx) => (
+        <a key={idx} href={r.uri} target="_blank" rel="noopener noreferrer" className="underline truncate max-w-[160px]" title={r.title}>
+          {r.author ? `Review by ${r.author}` : 'Review'}
+        </a>
+      ))}
+      {place.grounding && <span className="text-brand-400">via Google Maps</span>}
+    </div>
+  );
+};
+
+type GuideMapProps = {
+  days: GuideDay[];
+  // Markers become draggable when set
+  onMovePlace?: (placeId: string, coordinates: Coordinates) => void;
+  // While set, a click on the map positions this place
+  pickingPlaceId?: string | null;
+  onPickLocation?: (coordinates: Coordinates) => void;
+  // While walking: where the walker is, the stop they are heading to and where they went
+  userPosition?: Coordinates | null;
+  highlightPlaceId?: string | null;
+  tracks?: Coordinates[][];
+};
+
+const GuideMap = ({ days, onMovePlace, pickingPlaceId, onPickLocation, userPosition, highlightPlaceId, tracks }: GuideMapProps) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstance = useRef<L.Map | null>(null);
   const markersRef = useRef<L.LayerGroup | null>(null);
+  const fittedKeyRef = useRef('');
+  // Leaflet handlers are bound once; they read the latest callbacks from here
+  const callbacksRef = useRef({ onMovePlace, onPickLocation, pickingPlaceId });
+  callbacksRef.current = { onMovePlace, onPickLocation, pickingPlaceId };
+
+  const [dayFilter, setDayFilter] = useState<string | null>(null);
+  // Falls back to every day once the filtered day is removed
+  const shownDayId = days.some(d => d.id === dayFilter) ? dayFilter : null;
+  const isVisible = allPlaces(days).some(p => p.coordinates) || !!pickingPlaceId;
+  const validPlaces = allPlaces(days.filter(d => !shownDayId || d.id === shownDayId)).filter(p => p.coordinates);
 
   useEffect(() => {
     if (!mapRef.current) return;
@@ -76,6 +200,13 @@ const GuideMap = ({ places }: { places: Place[] }) => {
       }).addTo(mapInstance.current);
 
       markersRef.current = L.layerGroup().addTo(mapInstance.current);
+
+      mapInstance.current.on('click', (e: L.LeafletMouseEvent) => {
+        const { pickingPlaceId, onPickLocation } = callbacksRef.current;
+        if (pickingPlaceId && onPickLocation) {
+          onPickLocation({ latitude: e.latlng.lat, longitude: e.latlng.lng });
+        }
+      });
     }
 
     // Update markers
@@ -83,31 +214,67 @@ const GuideMap = ({ places }: { places: Place[] }) => {
     if (layerGroup) {
         layerGroup.clearLayers();
         
-        const validPlaces = places.filter(p => p.coordinates);
         const bounds = L.latLngBounds([]);
 
-        validPlaces.forEach(p => {
-            if(!p.coordinates) return;
-            const latLng = [p.coordinates.latitude, p.coordinates.longitude] as [number, number];
-            
-            // Custom Icon
-            const icon = L.divIcon({
-                className: 'bg-transparent',
-                html: `<div class="w-8 h-8 bg-brand-700 rounded-full border-2 border-white shadow-lg flex items-center justify-center text-white text-xs font-bold transform -translate-x-1/2 -translate-y-1/2 hover:scale-110 transition-transform cursor-pointer">${p.name[0]}</div>`,
-                iconSize: [32, 32],
-                iconAnchor: [16, 16]
+        const byId = new Map(validPlaces.map(p => [p.id, p.coordinates!]));
+        days.forEach((day, dayIdx) => {
+            if (shownDayId && day.id !== shownDayId) return;
+            const color = dayColor(dayIdx);
+
+            // Numbered by position in the day, matching the list and the story
+            day.places.forEach((p, idx) => {
+                if(!p.coordinates) return;
+                const latLng = [p.coordinates.latitude, p.coordinates.longitude] as [number, number];
+
+                // Custom Icon
+                const highlight = p.id === highlightPlaceId ? ' ring-4 ring-amber-400 animate-pulse' : '';
+                const icon = L.divIcon({
+                    className: 'bg-transparent',
+                    html: `<div class="w-8 h-8 rounded-full border-2 border-white shadow-lg flex items-center justify-center text-white text-xs font-bold transform -translate-x-1/2 -translate-y-1/2 hover:scale-110 transition-transform cursor-pointer${highlight}" style="background-color:${color}">${idx + 1}</div>`,
+                    iconSize: [32, 32],
+                    iconAnchor: [16, 16]
+                });
+
+                const dayLine = days.length > 1 ? `<div class="text-[10px] uppercase tracking-wider text-brand-500">${escapeHtml(dayHeading(day, dayIdx))}</div>` : '';
+                const marker = L.marker(latLng, { icon, draggable: !!onMovePlace })
+                    .bindPopup(`${dayLine}<div class="font-sans text-sm font-bold text-brand-900">${escapeHtml(p.name)}</div><div class="text-xs text-brand-600">${escapeHtml(p.address || '')}</div>`)
+                    .addTo(layerGroup);
+                marker.on('dragend', () => {
+                    const position = marker.getLatLng();
+                    callbacksRef.current.onMovePlace?.(p.id, { latitude: position.lat, longitude: position.lng });
+                });
+
+                bounds.extend(latLng);
             });
 
-            L.marker(latLng, { icon })
-                .bindPopup(`<div class="font-sans text-sm font-bold text-brand-900">${p.name}</div><div class="text-xs text-brand-600">${p.address || ''}</div>`)
+            // The walking route between the day's stops, in visiting order
+            buildRouteLegs(day.places).forEach(leg => {
+                const from = byId.get(leg.fromPlaceId)!;
+                const to = byId.get(leg.toPlaceId)!;
+                L.polyline([[from.latitude, from.longitude], [to.latitude, to.longitude]], {
+                    color, weight: 3, opacity: 0.6, dashArray: '6 6'
+                })
+                    .bindTooltip(`${formatDistance(leg.distanceKm)} · ${formatDuration(leg.walkingMinutes)} walk`, { sticky: true })
+                    .addTo(layerGroup);
+            });
+        });
+
+        tracks?.forEach(track => {
+            L.polyline(track.map(p => [p.latitude, p.longitude] as [number, number]), { color: '#2563eb', weight: 4, opacity: 0.7 })
                 .addTo(layerGroup);
-            
-            bounds.extend(latLng);
         });
+        if (userPosition) {
+            L.circleMarker([userPosition.latitude, userPosition.longitude], {
+                radius: 8, color: '#fff', weight: 3, fillColor: '#2563eb', fillOpacity: 1
+            }).bindTooltip('You are here').addTo(layerGroup);
+        }
 
-        if (validPlaces.length > 0 && mapInstance.current) {
+        // Refit only when places appear or disappear, not while their markers are being moved
+        const fittedKey = validPlaces.map(p => p.id).join(',');
+        if (validPlaces.length > 0 && mapInstance.current && fittedKey !== fittedKeyRef.current) {
             mapInstance.current.fitBounds(bounds, { padding: [50, 50], maxZoom: 15 });
         }
+        fittedKeyRef.current = fittedKey;
     }
     
     // Invalidate size to handle container resize
@@ -115,30 +282,160 @@ const GuideMap = ({ places }: { places: Place[] }) => {
        mapInstance.current?.invalidateSize();
     }, 100);
 
-  }, [places]);
+  }, [days, shownDayId, isVisible, userPosition, highlightPlaceId, tracks]);
+
+  // Kept mounted while hidden so the Leaflet map survives an empty guide
+  return (
+    <div className={`w-full h-64 rounded-xl overflow-hidden shadow-sm border border-brand-200 mb-6 relative z-0 ${isVisible ? '' : 'hidden'}`}>
+       {/* Inline so it wins over Leaflet's grab cursor */}
+       <div ref={mapRef} className="w-full h-full" style={pickingPlaceId ? { cursor: 'crosshair' } : undefined} />
+       {pickingPlaceId && (
+         <div className="absolute top-2 left-1/2 -translate-x-1/2 z-[1000] bg-brand-900/80 text-white text-xs font-bold px-3 py-1 rounded-full pointer-events-none">
+           Click the map to place this stop
+         </div>
+       )}
+       {days.length > 1 && (
+         <div className="absolute bottom-2 left-2 z-[1000] flex flex-wrap gap-1">
+           {[null, ...days.map(d => d.id)].map((dayId, idx) => (
+             <button
+               key={dayId || 'all'}
+               onClick={() => setDayFilter(dayId)}
+               className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-bold shadow-sm ${
+                 shownDayId === dayId ? 'bg-brand-900 text-white' : 'bg-white/90 text-brand-800 hover:bg-white'
+               }`}
+             >
+               {dayId && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: dayColor(idx - 1) }} />}
+               {dayId ? `Day ${idx}` : 'All days'}
+             </button>
+           ))}
+         </div>
+       )}
+    </div>
+  );
+};
+
+const CLUSTER_RADIUS_PX = 40;
 
-  if (places.filter(p => p.coordinates).length === 0) return null;
+// Groups a guide's places that sit within CLUSTER_RADIUS_PX of each other at the map's zoom
+const clusterPlaces = (map: L.Map, places: Place[]): Place[][] => {
+  const clusters: { point: L.Point; places: Place[] }[] = [];
+  places.forEach(place => {
+    const point = map.latLngToLayerPoint([place.coordinates!.latitude, place.coordinates!.longitude]);
+    const cluster = clusters.find(c => c.point.distanceTo(point) <= CLUSTER_RADIUS_PX);
+    if (cluster) cluster.places.push(place);
+    else clusters.push({ point, places: [place] });
+  });
+  return clusters.map(c => c.places);
+};
+
+type NearbyGuidesMapProps = {
+  guides: Guide[];
+  userPosition: Coordinates;
+};
+
+// Every place of the nearby guides, clustered per guide; a click opens the guide
+const NearbyGuidesMap = ({ guides, userPosition }: NearbyGuidesMapProps) => {
+  const navigate = useNavigate();
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstance = useRef<L.Map | null>(null);
+  const markersRef = useRef<L.LayerGroup | null>(null);
+  // The zoom handler is bound once; it reads the latest guides from here
+  const drawRef = useRef<() => void>(() => {});
+
+  drawRef.current = () => {
+    const map = mapInstance.current;
+    const layerGroup = markersRef.current;
+    if (!map || !layerGroup) return;
+    layerGroup.clearLayers();
+
+    L.circleMarker([userPosition.latitude, userPosition.longitude], {
+      radius: 7, color: '#fff', weight: 2, fillColor: '#2563eb', fillOpacity: 1
+    }).bindTooltip('You are here').addTo(layerGroup);
+
+    guides.forEach((guide, guideIdx) => {
+      const color = dayColor(guideIdx);
+      clusterPlaces(map, allPlaces(guide.days).filter(p => p.coordinates)).forEach(places => {
+        const lat = places.reduce((sum, p) => sum + p.coordinates!.latitude, 0) / places.length;
+        const lng = places.reduce((sum, p) => sum + p.coordinates!.longitude, 0) / places.length;
+        const size = places.length > 1 ? 32 : 20;
+        const icon = L.divIcon({
+          className: 'bg-transparent',
+          html: `<div class="rounded-full border-2 border-white shadow-lg flex items-center justify-center text-white text-xs font-bold transform -translate-x-1/2 -translate-y-1/2 hover:scale-110 transition-transform cursor-pointer" style="width:${size}px;height:${size}px;background-color:${color}">${places.length > 1 ? places.length : ''}</div>`,
+          iconSize: [size, size],
+          iconAnchor: [size / 2, size / 2]
+        });
+        const placeLine = places.length === 1 ? escapeHtml(places[0].name) : `${places.length} places`;
+        L.marker([lat, lng], { icon })
+          .bindTooltip(`<div class="font-bold">${escapeHtml(guide.title)}</div><div class="text-xs">${placeLine}</div>`)
+          .on('click', () => navigate(`/guide/${guide.id}`))
+          .addTo(layerGroup);
+      });
+    });
+  };
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+    if (!mapInstance.current) {
+      mapInstance.current = L.map(mapRef.current, { zoomControl: false, attributionControl: false });
+      L.tileLayer('https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png', {
+        subdomains: 'abcd',
+        maxZoom: 20
+      }).addTo(mapInstance.current);
+      markersRef.current = L.layerGroup().addTo(mapInstance.current);
+      // Clusters depend on the zoom level
+      mapInstance.current.on('zoomend', () => drawRef.current());
+    }
+
+    const bounds = L.latLngBounds([[userPosition.latitude, userPosition.longitude]]);
+    guides.forEach(g => allPlaces(g.days).forEach(p => {
+      if (p.coordinates) bounds.extend([p.coordinates.latitude, p.coordinates.longitude]);
+    }));
+    mapInstance.current.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 });
+    drawRef.current();
+  }, [guides, userPosition]);
+
+  // The map is unmounted when switching back to the list
+  useEffect(() => () => {
+    mapInstance.current?.remove();
+    mapInstance.current = null;
+  }, []);
 
   return (
-    <div className="w-full h-64 rounded-xl overflow-hidden shadow-sm border border-brand-200 mb-6 relative z-0">
-       <div ref={mapRef} className="w-full h-full" />
+    <div className="w-full h-80 rounded-xl overflow-hidden shadow-sm border border-brand-200 relative z-0">
+      <div ref={mapRef} className="w-full h-full" />
     </div>
   );
 };
 
 const Dashboard = () => {
+  const user = useCurrentUser();
   const [coords, setCoords] = useState<Coordinates | null>(null);
+  const [cityName, setCityName] = useState<string | null>(null);
   const [events, setEvents] = useState<LocalEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [groundingSources, setGroundingSources] = useState<GroundingSource[]>([]);
-  const [previewGuide, setPreviewGuide] = useState<Guide | null>(null);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [eventWindow, setEventWindow] = useState<EventWindow>('all');
+  const [eventCategory, setEventCategory] = useState<EventCategory | 'all'>('all');
+  // The feed's search lives in the URL so results can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [nearbyMeasure, setNearbyMeasure] = useState<DistanceMeasure>('nearest');
+  const [nearbyView, setNearbyView] = useState<'list' | 'map'>('list');
+
+  useEffect(() => {
+    listGuides()
+      .then(setGuides)
+      .catch(e => console.error("Could not load saved guides", e));
+  }, []);
 
   useEffect(() => {
     const init = async () => {
       try {
         const pos = await getCurrentPosition();
         setCoords(pos);
-        const data = await getLocalEvents(pos.latitude, pos.longitude, "your location");
+        const city = await getCityNameFromCoords(pos);
+        if (city !== UNKNOWN_CITY) setCityName(city);
+        const data = await getLocalEvents(pos.latitude, pos.longitude, city !== UNKNOWN_CITY ? city : "your location");
         setEvents(data.events);
         setGroundingSources(data.sources);
       } catch (e) {
@@ -150,6 +447,55 @@ const Dashboard = () => {
     init();
   }, []);
 
+  const eventCategories = EVENT_CATEGORIES.filter(c => events.some(ev => ev.category === c));
+  const visibleEvents = filterEvents(events, eventWindow, eventCategory, toIsoDate(new Date()));
+
+  // Drafts are private to their author
+  const drafts = guides.filter(g => g.status === 'draft' && g.author.id === user?.id);
+  const publishedGuides = guides.filter(g => g.status === 'published');
+
+  const searchIndex = useMemo(() => buildSearchIndex(publishedGuides), [guides]);
+  const facets = useMemo(() => guideFacets(publishedGuides), [guides]);
+  const queryText = searchParams.get('q') || '';
+  const sortParam = searchParams.get('sort') as GuideSort | null;
+  const query = {
+    text: queryText,
+    city: searchParams.get('city') || undefined,
+    tag: searchParams.get('tag') || undefined,
+    authorId: searchParams.get('author') || undefined,
+    // Best match only means something while searching
+    sort: (sortParam && (sortParam !== 'relevance' || queryText) ? sortParam : queryText ? 'relevance' : 'recent') as GuideSort,
+  };
+  const feed = searchGuides(searchIndex, query, coords);
+  const isFiltered = !!(query.text || query.city || query.tag || query.authorId);
+  const nearby = useMemo(
+    () => (coords ? rankGuidesByDistance(publishedGuides, coords, nearbyMeasure) : []),
+    [guides, coords, nearbyMeasure]
+  );
+  // A stable list, so the map only refits when the nearby guides change
+  const nearbyGuides = useMemo(() => nearby.map(n => n.guide), [nearby]);
+
+  // Typing replaces the history entry instead of adding one per keystroke
+  const setQueryParam = (key: string, value: string | null, replace = false) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) next.set(key, value);
+      else next.delete(key);
+      return next;
+    }, { replace });
+  };
+
+  const removeDraft = async (e: React.MouseEvent, id: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      await deleteGuide(id);
+      setGuides(prev => prev.filter(g => g.id !== id));
+    } catch (err) {
+      console.error("Could not delete draft", err);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-brand-50 pb-20">
       <Header />
@@ -169,9 +515,36 @@ const Dashboard = () => {
                </div>
                <h2 className="font-bold text-lg text-brand-800 mb-4 flex items-center gap-2">
                  <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
-                 Happening Nearby
+                 {cityName ? `Happening in ${cityName}` : 'Happening Nearby'}
                </h2>
                
+               {/* Event Filters */}
+               {!loading && events.length > 0 && (
+                 <div className="flex flex-wrap items-center gap-2 mb-4 relative z-10">
+                   {(['all', 'today', 'week'] as EventWindow[]).map(w => (
+                     <button
+                       key={w}
+                       onClick={() => setEventWindow(w)}
+                       className={`text-xs font-bold px-3 py-1 rounded-full transition-colors ${
+                         eventWindow === w ? 'bg-brand-700 text-white' : 'bg-white/60 text-brand-700 hover:bg-white'
+                       }`}
+                     >
+                       {w === 'all' ? 'Anytime' : w === 'today' ? 'Today' : 'This week'}
+                     </button>
+                   ))}
+                   <select
+                     value={eventCategory}
+                     onChange={(e) => setEventCategory(e.target.value as EventCategory | 'all')}
+                     className="text-xs font-bold bg-white/60 text-brand-700 border-transparent rounded-full py-1 pl-3 pr-8 focus:ring-0"
+                   >
+                     <option value="all">All categories</option>
+                     {eventCategories.map(c => (
+                       <option key={c} value={c}>{c[0].toUpperCase() + c.slice(1)}</option>
+                     ))}
+                   </select>
+                 </div>
+               )}
+
                {loading ? (
                  <div className="space-y-3">
                    <div className="h-4 bg-brand-200 rounded w-3/4 animate-pulse"></div>
@@ -179,13 +552,28 @@ const Dashboard = () => {
                  </div>
                ) : (
                  <ul className="space-y-4 relative z-10">
-                   {events.length > 0 ? events.map((ev, i) => (
+                   {visibleEvents.length > 0 ? visibleEvents.map((ev, i) => (
                      <li key={i} className="bg-white/60 p-3 rounded-lg backdrop-blur-sm">
-                       <h3 className="font-bold text-brand-900">{ev.title}</h3>
+                       <div className="flex items-start justify-between gap-3">
+                         <h3 className="font-bold text-brand-900">{ev.title}</h3>
+                         {ev.date && (
+                           <span className="text-[11px] font-bold uppercase tracking-wider text-brand-600 whitespace-nowrap">
+                             {formatEventDate(ev.date)}{ev.endDate && ` – ${formatEventDate(ev.endDate)}`}
+                           </span>
+                         )}
+                       </div>
+                       {ev.location && <p className="text-xs text-brand-500 mt-0.5">{ev.location}</p>}
                        <p className="text-sm text-brand-700 mt-1 line-clamp-2">{ev.description}</p>
+                       {ev.url && (
+                         <a href={ev.url} target="_blank" rel="noopener noreferrer" className="text-xs text-brand-700 underline mt-1 inline-block">
+                           Details
+                         </a>
+                       )}
                      </li>
                    )) : (
-                     <p className="text-brand-600">No events found nearby right now.</p>
+                     <p className="text-brand-600">
+                       {events.length > 0 ? 'No events match these filters.' : 'No events found nearby right now.'}
+                     </p>
                    )}
                  </ul>
                )}
@@ -217,66 +605,313 @@ const Dashboard = () => {
         </div>
       </div>
 
+      {/* Drafts */}
+      {drafts.length > 0 && (
+        <div className="max-w-5xl mx-auto px-4 pt-12">
+          <h2 className="font-serif text-3xl mb-8 text-brand-900">Your Drafts</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {drafts.map(draft => (
+              <Link key={draft.id} to={`/create/${draft.id}`}
+                    className="group bg-white rounded-xl p-4 shadow-sm hover:shadow-md transition-all border border-brand-100 flex gap-4 items-center">
+                <PhotoImage src={draft.coverImage} rendition="thumbnail" alt={draft.title} className="w-16 h-16 rounded-lg object-cover flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-serif text-lg font-bold text-brand-900 truncate">{draft.title}</h3>
+                  <p className="text-xs text-brand-500">
+                    {allPlaces(draft.days).length} {allPlaces(draft.days).length === 1 ? 'place' : 'places'}
+                    {draft.days.length > 1 && ` in ${draft.days.length} days`} &middot; edited {new Date(draft.updatedAt || draft.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => removeDraft(e, draft.id)}
+                  className="text-brand-300 hover:text-red-500 self-start"
+                  title="Delete draft"
+                >
+                  &times;
+                </button>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Near me */}
+      {coords && nearby.length > 0 && (
+        <div className="max-w-5xl mx-auto px-4 pt-12">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+            <h2 className="font-serif text-3xl text-brand-900">Near You</h2>
+            <div className="flex items-center gap-2">
+              <select
+                value={nearbyMeasure}
+                onChange={(e) => setNearbyMeasure(e.target.value as DistanceMeasure)}
+                className="text-xs font-bold bg-white border border-brand-200 text-brand-700 rounded-full py-1 pl-3 pr-8 focus:ring-0"
+              >
+                <option value="nearest">To the nearest stop</option>
+                <option value="centroid">To the guide's centre</option>
+              </select>
+              {(['list', 'map'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setNearbyView(view)}
+                  className={`text-xs font-bold px-3 py-1 rounded-full transition-colors ${
+                    nearbyView === view ? 'bg-brand-700 text-white' : 'bg-white text-brand-700 border border-brand-200 hover:border-brand-400'
+                  }`}
+                >
+                  {view === 'list' ? 'List' : 'Map'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {nearbyView === 'map' ? (
+            <NearbyGuidesMap guides={nearbyGuides} userPosition={coords} />
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {nearby.slice(0, 6).map(({ guide, distanceKm }) => (
+                <GuideCard key={guide.id} guide={guide} distanceKm={distanceKm} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Feed */}
       <div className="max-w-5xl mx-auto px-4 py-12">
         <h2 className="font-serif text-3xl mb-8 text-brand-900">Featured Guides</h2>
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-          {MOCK_GUIDES.map(guide => (
-            <div key={guide.id} 
-                 onClick={() => setPreviewGuide(guide)}
-                 className="group bg-white rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-all cursor-pointer border border-brand-100">
-              <div className="h-64 overflow-hidden relative">
-                <img src={guide.coverImage} alt={guide.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"/>
-                <div className="absolute top-3 left-3 bg-white/90 backdrop-blur px-2 py-1 rounded text-xs font-bold uppercase tracking-wider text-brand-800">
-                  {guide.locationName}
-                </div>
-              </div>
-              <div className="p-5">
-                <h3 className="font-serif text-xl font-bold text-brand-900 mb-2">{guide.title}</h3>
-                <div className="flex items-center gap-2 mt-4">
-                   <img src={guide.author.avatar} alt={guide.author.name} className="w-6 h-6 rounded-full" />
-                   <span className="text-xs text-brand-500">by {guide.author.name}</span>
-                </div>
+        {publishedGuides.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-8">
+            <input
+              type="search"
+              value={query.text}
+              onChange={(e) => setQueryParam('q', e.target.value, true)}
+              placeholder="Search guides, places, tags..."
+              className="flex-1 min-w-[14rem] bg-white border border-brand-200 focus:border-brand-400 focus:ring-0 rounded-lg px-3 py-2 text-brand-900 text-sm"
+            />
+            <select
+              value={query.city || ''}
+              onChange={(e) => setQueryParam('city', e.target.value)}
+              className="bg-white border border-brand-200 rounded-lg px-2 py-2 text-brand-800 text-sm"
+            >
+              <option value="">All cities</option>
+              {facets.cities.map(city => <option key={city} value={city}>{city}</option>)}
+            </select>
+            <select
+              value={query.authorId || ''}
+              onChange={(e) => setQueryParam('author', e.target.value)}
+              className="bg-white border border-brand-200 rounded-lg px-2 py-2 text-brand-800 text-sm"
+            >
+              <option value="">All authors</option>
+              {facets.authors.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            <select
+              value={query.sort}
+              onChange={(e) => setQueryParam('sort', e.target.value)}
+              className="bg-white border border-brand-200 rounded-lg px-2 py-2 text-brand-800 text-sm"
+            >
+              {query.text && <option value="relevance">Best match</option>}
+              <option value="recent">Most recent</option>
+              <option value="distance" disabled={!coords}>Nearest to me</option>
+            </select>
+            {facets.tags.length > 0 && (
+              <div className="w-full flex flex-wrap gap-1.5">
+                {facets.tags.map(tag => {
+                  const isActive = !!query.tag && tagKey(query.tag) === tagKey(tag);
+                  return (
+                    <button
+                      key={tag}
+                      onClick={() => setQueryParam('tag', isActive ? null : tag)}
+                      className={`text-xs font-bold px-3 py-1 rounded-full transition-colors ${
+                        isActive ? 'bg-brand-700 text-white' : 'bg-white text-brand-700 border border-brand-200 hover:border-brand-400'
+                      }`}
+                    >
+                      {tag}
+                    </button>
+                  );
+                })}
               </div>
+            )}
+          </div>
+        )}
+        {publishedGuides.length === 0 ? (
+          <div className="border-2 border-dashed border-brand-300 rounded-xl p-12 text-center text-brand-500">
+            <p className="font-serif text-xl mb-2">No published guides yet</p>
+            <p className="text-sm">Publish a guide and it will show up here.</p>
+          </div>
+        ) : (
+          feed.length === 0 ? (
+            <div className="text-center text-brand-500 py-12 space-y-2">
+              <p className="font-serif text-xl">No guides match your search</p>
+              {isFiltered && (
+                <button onClick={() => setSearchParams({}, { replace: true })} className="text-sm font-bold text-brand-700 hover:underline">
+                  Clear filters
+                </button>
+              )}
             </div>
-          ))}
-        </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {feed.map(guide => (
+                <GuideCard key={guide.id} guide={guide} distanceKm={query.sort === 'distance' && coords ? distanceToGuide(guide, coords) : null} />
+              ))}
+            </div>
+          )
+        )}
       </div>
 
-      {previewGuide && <StoryPreview guide={previewGuide} onClose={() => setPreviewGuide(null)} />}
     </div>
   );
 };
 
-const GuideCreator = () => {
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+const GuideCreator: React.FC<{ guideId: string; author: User }> = ({ guideId, author }) => {
+  const [chatSession, setChatSession] = useState<AIChat | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
-  const [guidePlaces, setGuidePlaces] = useState<Place[]>([]);
+  const [turnController, setTurnController] = useState<AbortController | null>(null);
+  const [guideDays, setGuideDays] = useState<GuideDay[]>(() => [createGuideDay()]);
+  const [activeDayId, setActiveDayId] = useState<string | null>(null);
   const [guideTitle, setGuideTitle] = useState('Untitled Guide');
+  const [guideTags, setGuideTags] = useState<string[] | undefined>(undefined);
+  const [guideLanguageCode, setGuideLanguageCode] = useState<string | undefined>(undefined);
+  const [guideTranslations, setGuideTranslations] = useState<GuideTranslation[] | undefined>(undefined);
+  const [locationName, setLocationName] = useState('Draft Location');
+  const [editingPlaceId, setEditingPlaceId] = useState<string | null>(null);
+  const [pickingPlaceId, setPickingPlaceId] = useState<string | null>(null);
+  const [dragPlaceId, setDragPlaceId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ dayId: string; index: number } | null>(null);
+  const [routeOptions, setRouteOptions] = useState({ fixStart: true, fixEnd: false });
+  const [pendingClusters, setPendingClusters] = useState<PhotoCluster[] | null>(null);
+  const [homeArea, setHomeArea] = useState<Coordinates | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportLanguage, setExportLanguage] = useState<string | null>(null);
+  const [showTranslations, setShowTranslations] = useState(false);
+  const [baseGuide, setBaseGuide] = useState<Guide | null>(null);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [wpConfig, setWpConfig] = useState<WordPressConfig | null>(() => loadWordPressConfig());
+  const [showPublishSettings, setShowPublishSettings] = useState(false);
+  const [publishState, setPublishState] = useState<{ status: 'idle' | 'publishing' | 'done' | 'error'; message?: string }>({ status: 'idle' });
+  const [ownerName, setOwnerName] = useState<string | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const pendingSaveRef = useRef<Guide | null>(null);
 
-  // Initialize Chat
+  const guidePlaces = allPlaces(guideDays);
+  const isMultiDay = guideDays.length > 1;
+  // New places (chat, photos, imports) go to the chosen day, by default the last one
+  const activeDay = guideDays.find(d => d.id === activeDayId) || guideDays[guideDays.length - 1];
+
+  // Load the draft and its conversation, or start fresh under this id
   useEffect(() => {
-    const chat = createGuideChat();
-    setChatSession(chat);
-    setMessages([{
-      id: 'init',
-      role: 'model',
-      text: "Hi! I'm your AI editor. Where are we exploring today? Upload your photos (even HEIC!) and I'll find the locations automatically.",
-      timestamp: Date.now()
-    }]);
-  }, []);
+    let cancelled = false;
+    const logFailure = (what: string) => (e: unknown) => {
+      console.error(`Could not load ${what}`, e);
+      return null;
+    };
+    Promise.all([
+      getGuide(guideId).catch(logFailure('guide')),
+      getChatTranscript(guideId).catch(logFailure('chat'))
+    ]).then(([stored, transcript]) => {
+      if (cancelled) return;
+      if (stored && stored.author.id !== author.id) {
+        setOwnerName(stored.author.name);
+        return;
+      }
+      const guide = stored || createDraftGuide(author, guideId);
+      setBaseGuide(guide);
+      setGuideTitle(guide.title);
+      setGuideTags(guide.tags);
+      setGuideLanguageCode(guide.language);
+      setGuideTranslations(guide.translations);
+      setLocationName(guide.locationName);
+      setGuideDays(guide.days);
+
+      // Resuming hands the model its earlier history, so it remembers the vibe and places
+      setChatSession(createGuideChat(transcript?.history));
+      setMessages(transcript?.messages.length ? transcript.messages : [{
+        id: 'init',
+        role: 'model',
+        text: "Hi! I'm your AI editor. Where are we exploring today? Upload your photos (even HEIC!) and I'll find the locations automatically.",
+        timestamp: Date.now()
+      }]);
+    });
+    return () => { cancelled = true; };
+  }, [guideId]);
+
+  // Store the conversation whenever a turn has finished
+  useEffect(() => {
+    if (isTyping || !chatSession || !messages.some(m => m.role === 'user')) return;
+    saveChatTranscript({ guideId, messages, history: chatSession.getHistory() })
+      .catch(e => console.error("Could not save the chat", e));
+  }, [isTyping, messages, chatSession, guideId]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Where the author is while editing, most often home; places there get a privacy warning
+  useEffect(() => {
+    getCurrentPosition()
+      .then(setHomeArea)
+      .catch(() => setHomeArea(null));
+  }, []);
+
+  // Leaving the builder stops a reply that is still streaming
+  useEffect(() => () => turnController?.abort(), [turnController]);
+
+  // Tool calls arrive mid-turn; keep the latest draft in a ref so consecutive calls build on each other
+  const draftRef = useRef<GuideDraftState>({ title: guideTitle, tags: guideTags || [], days: guideDays, activeDayId: activeDay.id });
+  draftRef.current = { title: guideTitle, tags: guideTags || [], days: guideDays, activeDayId: activeDay.id };
+
+  const updateMessage = (id: string, patch: Partial<ChatMessage>) =>
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+
+  // Streams the model's reply into a message of its own; Stop keeps whatever arrived so far
+  const runGuideTurn = async (prompt: string, failureText: string, photo?: { imageUrl: string; coordinates?: Coordinates }) => {
+    const changes: GuideChange[] = [];
+    let photoToAttach = photo;
+    const replyId = `${Date.now()}-reply`;
+    const controller = new AbortController();
+
+    setTurnController(controller);
+    setMessages(prev => [...prev, { id: replyId, role: 'model', text: '', timestamp: Date.now() }]);
+
+    try {
+      const result = await sendGuideMessage(chatSession!, prompt, call => {
+        const outcome = applyGuideAction(draftRef.current, call.name || '', call.args, call.name === 'addPlace' ? photoToAttach : undefined);
+        if (outcome.change) {
+          // The uploaded photo belongs to the first place added for it
+          if (outcome.change.kind === 'added') photoToAttach = undefined;
+          changes.push(outcome.change);
+          draftRef.current = outcome.state;
+          setGuideDays(outcome.state.days);
+          setGuideTitle(outcome.state.title);
+          if (outcome.change.kind === 'tagged') setGuideTags(outcome.state.tags);
+          updateMessage(replyId, { changes: [...changes] });
+        }
+        return outcome.response;
+      }, {
+        signal: controller.signal,
+        onText: text => updateMessage(replyId, { text })
+      });
+
+      updateMessage(replyId, { text: result.text, groundingSources: result.sources, changes });
+      // Sources are only known once the turn is done; the places it added or changed keep theirs
+      const touchedIds = changes.filter(c => c.placeId && (c.kind === 'added' || c.kind === 'updated')).map(c => c.placeId!);
+      if (touchedIds.length > 0 && result.sources.some(s => s.sourceType === 'maps')) {
+        setGuideDays(prev => applyGrounding(prev, touchedIds, result.sources));
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateMessage(replyId, { stopped: true });
+      } else {
+        console.error("Chat error", error);
+        updateMessage(replyId, { text: failureText });
+      }
+    } finally {
+      setTurnController(null);
+    }
+  };
+
   const handleSendMessage = async () => {
-    if (!input.trim() || !chatSession) return;
+    if (!input.trim() || !chatSession || isTyping) return;
     
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
@@ -290,149 +925,311 @@ const GuideCreator = () => {
     setIsTyping(true);
 
     try {
-      const result = await chatSession.sendMessage({ message: userMsg.text });
-      
-      const chunks = result.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      const sources: GroundingSource[] = [];
-      
-      if (result.candidates?.[0]?.groundingMetadata?.groundingSupports) {
-         chunks.forEach(c => {
-             if ((c as any).maps?.uri) {
-                sources.push({
-                   sourceType: 'maps',
-                   uri: (c as any).maps.uri,
-                   title: (c as any).maps.title || 'Map Location'
-                });
-             }
-         });
-      }
-
-      const modelMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: result.text || '',
-        timestamp: Date.now(),
-        groundingSources: sources
-      };
-
-      setMessages(prev => [...prev, modelMsg]);
-
-      const potentialPlace = await extractPlaceFromText(result.text || '');
-      if (potentialPlace) {
-         setGuidePlaces(prev => {
-             if (prev.find(p => p.name === potentialPlace.name)) return prev;
-             return [...prev, potentialPlace];
-         });
-      }
-
-    } catch (error) {
-      console.error("Chat error", error);
-      setMessages(prev => [...prev, {
-        id: Date.now().toString(),
-        role: 'model',
-        text: "Sorry, I had trouble connecting. Please try again.",
-        timestamp: Date.now()
-      }]);
+      await runGuideTurn(userMsg.text, "Sorry, I had trouble connecting. Please try again.");
     } finally {
       setIsTyping(false);
     }
   };
 
+  // A reply from the app itself, e.g. when something failed before the model was involved
+  const postReply = (text: string, changes?: GuideChange[]) =>
+    setMessages(prev => [...prev, { id: `${Date.now()}-reply`, role: 'model', text, changes, timestamp: Date.now() }]);
+
   const handlePhotoProcessed = async (photo: ProcessedPhoto) => {
     if (!chatSession) return;
-
-    // Display user photo in chat
-    const userMsg: ChatMessage = {
-      id: photo.id,
-      role: 'user',
-      text: photo.gps 
-        ? `I uploaded a photo taken at Lat: ${photo.gps.latitude}, Lng: ${photo.gps.longitude}.`
-        : "I uploaded a photo.",
-      image: photo.dataUri,
-      timestamp: Date.now()
-    };
-    setMessages(prev => [...prev, userMsg]);
     setIsTyping(true);
 
     try {
+      const imageUrl = await savePhoto(photo, guideId);
+
+      // Display user photo in chat
+      const userMsg: ChatMessage = {
+        id: photo.id,
+        role: 'user',
+        text: photo.gps 
+          ? `I uploaded a photo taken at Lat: ${photo.gps.latitude}, Lng: ${photo.gps.longitude}.`
+          : "I uploaded a photo.",
+        image: imageUrl,
+        timestamp: Date.now()
+      };
+      setMessages(prev => [...prev, userMsg]);
+
       let prompt = "I uploaded a photo.";
       
       if (photo.gps) {
-        prompt += ` It has GPS coordinates: ${photo.gps.latitude}, ${photo.gps.longitude}. Use your tools to find what is at this location and tell me about it.`;
+        // The chat has no Maps access of its own, so the place is looked up first
+        const identified = await identifyPlaceFromCoords(photo.gps.latitude, photo.gps.longitude);
+        prompt += ` It has GPS coordinates: ${photo.gps.latitude}, ${photo.gps.longitude}.`;
+        prompt += identified
+          ? ` Google Maps has "${identified.name}"${identified.address ? ` (${identified.address})` : ''} there. Tell me about it and add it to the guide.`
+          : ` Google Maps found nothing there; ask me what the place is before adding it.`;
       } else {
         // If no GPS, ask Gemini to look at the image
-        const analysis = await analyzeUploadedImage(photo.dataUri.split(',')[1], photo.mimeType);
-        prompt += ` Description: "${analysis}". What looks interesting here?`;
+        const analysis = await analyzeUploadedImage(await blobToBase64(photo.ai), photo.ai.type);
+        prompt += ` Description: "${analysis}". What looks interesting here? If you can tell which place it is, add it to the guide.`;
       }
 
       // Important: Send image data to chat if we need it for context, 
       // but standard Chat doesn't persist image history well in stateful chats without resending.
       // We'll rely on the text context established.
-      const result = await chatSession.sendMessage({ message: prompt });
-      
-      const chunks = result.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      const sources: GroundingSource[] = [];
-      if (result.candidates?.[0]?.groundingMetadata?.groundingSupports) {
-         chunks.forEach(c => {
-             if ((c as any).maps?.uri) {
-                sources.push({
-                   sourceType: 'maps',
-                   uri: (c as any).maps.uri,
-                   title: (c as any).maps.title || 'Map Location'
-                });
-             }
-         });
-      }
+      // The photo is attached to the first place the model adds during this turn.
+      await runGuideTurn(prompt, "I got the photo, but had trouble identifying the location.", { imageUrl, coordinates: photo.gps });
+    } catch (e) {
+      console.error("Could not add the photo", e);
+      postReply("Sorry, I couldn't save that photo. Please try again.");
+    } finally {
+      setIsTyping(false);
+    }
+  };
 
+  // A single photo goes to the chat; a batch is grouped into places and reviewed first
+  const handlePhotosProcessed = async (photos: ProcessedPhoto[]) => {
+    if (photos.length === 1) {
+      await handlePhotoProcessed(photos[0]);
+    } else {
+      setPendingClusters(clusterPhotos(photos));
+    }
+  };
+
+  // One identification call per confirmed group; the group's photos become the place's gallery
+  const importPhotoClusters = async (clusters: PhotoCluster[]) => {
+    setPendingClusters(null);
+    const dayId = activeDay.id;
+    const photoCount = clusters.reduce((sum, c) => sum + c.photos.length, 0);
+    const imageUrls = new Map<string, string>();
+    const changes: GuideChange[] = [];
+    let unidentified = 0;
+    setIsTyping(true);
+
+    try {
+      for (const photo of clusters.flatMap(c => c.photos)) {
+        imageUrls.set(photo.id, await savePhoto(photo, guideId));
+      }
       setMessages(prev => [...prev, {
-        id: Date.now().toString(),
-        role: 'model',
-        text: result.text || '',
-        timestamp: Date.now(),
-        groundingSources: sources
+        id: `${Date.now()}-photos`,
+        role: 'user',
+        text: `I uploaded ${photoCount} photos of ${clusters.length} places.`,
+        image: imageUrls.get(clusters[0].photos[0].id),
+        timestamp: Date.now()
       }]);
 
-      // Extract Place and associate the image
-      const potentialPlace = await extractPlaceFromText(result.text || '');
-      if (potentialPlace) {
-         potentialPlace.imageUrl = photo.dataUri; // Use the actual photo
-         
-         // IMPORTANT: Attach GPS from photo if available, so we can map it
-         if (photo.gps) {
-            potentialPlace.coordinates = photo.gps;
-         }
-
-         setGuidePlaces(prev => [...prev, potentialPlace]);
+      for (const cluster of clusters) {
+        const [cover] = cluster.photos;
+        const identified = await identifyPhotoCluster(
+          cluster.center,
+          cluster.center ? undefined : { data: await blobToBase64(cover.ai), mimeType: cover.ai.type }
+        );
+        if (!identified) unidentified++;
+        const place: Place = {
+          id: generateId(),
+          name: identified?.name || `Photo stop ${guidePlaces.length + changes.length + 1}`,
+          description: identified?.description || '',
+          address: identified?.address || undefined,
+          coordinates: cluster.center,
+          imageUrl: imageUrls.get(cover.id),
+          gallery: cluster.photos.map(p => imageUrls.get(p.id)!)
+        };
+        setGuideDays(prev => addPlacesToDay(prev, dayId, [place]));
+        changes.push({ kind: 'added', placeId: place.id, summary: `Added ${place.name}` });
       }
 
+      postReply(
+        `I added ${changes.length} place${changes.length === 1 ? '' : 's'} from your photos.` +
+          (unidentified ? ` I couldn't tell where ${unidentified === 1 ? 'one of them was' : `${unidentified} of them were`}, open those to name them.` : ''),
+        changes
+      );
     } catch (e) {
-      console.error(e);
+      console.error("Could not import the photos", e);
+      postReply(
+        changes.length > 0
+          ? `Something went wrong with your photos after I added ${changes.length} of ${clusters.length} places. Please upload the rest again.`
+          : "Sorry, I couldn't save your photos. Please try again.",
+        changes
+      );
+    } finally {
+      setIsTyping(false);
+    }
+  };
+
+  // Places from a map file are added as they are, no AI involved
+  const importGeoFile = async (file: File) => {
+    setMessages(prev => [...prev, {
+      id: `${Date.now()}-geo`,
+      role: 'user',
+      text: `I imported ${file.name}.`,
+      timestamp: Date.now()
+    }]);
+    try {
+      const imported = parseGeoFile(await file.text(), file.name);
+      const importedPlaces = imported.days.flatMap(day => day.places);
+      if (imported.days.length > 1) {
+        // A multi-day file brings its days along, replacing the blank day of an empty guide
+        const days = imported.days.map(day => ({ ...createGuideDay(day.title), notes: day.notes, places: day.places }));
+        setGuideDays(prev => [...(allPlaces(prev).length === 0 && prev.length === 1 ? [] : prev), ...days]);
+      } else {
+        setGuideDays(prev => addPlacesToDay(prev, activeDay.id, importedPlaces));
+      }
+      if (imported.title && guidePlaces.length === 0 && guideTitle === 'Untitled Guide') setGuideTitle(imported.title);
       setMessages(prev => [...prev, {
-        id: Date.now().toString(),
+        id: `${Date.now()}-geo-reply`,
         role: 'model',
-        text: "I got the photo, but had trouble identifying the location.",
+        text: `I added ${importedPlaces.length} place${importedPlaces.length === 1 ? '' : 's'} from ${file.name}` +
+          (imported.days.length > 1 ? `, over ${imported.days.length} days.` : '.'),
+        changes: importedPlaces.map(place => ({ kind: 'added', placeId: place.id, summary: `Added ${place.name || 'an unnamed place'}` })),
+        timestamp: Date.now()
+      }]);
+    } catch (e) {
+      console.error("Could not import map file", e);
+      setMessages(prev => [...prev, {
+        id: `${Date.now()}-geo-error`,
+        role: 'model',
+        text: `I couldn't read ${file.name}. ${e instanceof Error ? e.message : ''}`.trim(),
         timestamp: Date.now()
       }]);
-    } finally {
-      setIsTyping(false);
     }
   };
 
+  const exportGuide = (format: 'amp' | GeoFormat) => {
+    setShowExportMenu(false);
+    const exported = localizeGuide(currentGuide, exportLanguage || guideLanguage(currentGuide));
+    if (format === 'amp') {
+      downloadAmpStory(exported);
+    } else {
+      downloadGuideAs(exported, format);
+    }
+  };
+
+  const updatePlace = (placeId: string, patch: Partial<Place>) =>
+    setGuideDays(prev => mapPlaces(prev, p => (p.id === placeId ? { ...p, ...patch } : p)));
+
+  const removePlace = (placeId: string) => {
+    setGuideDays(prev => withoutPlace(prev, placeId));
+    if (editingPlaceId === placeId) setEditingPlaceId(null);
+    if (pickingPlaceId === placeId) setPickingPlaceId(null);
+  };
+
+  const finishPlaceDrag = () => {
+    if (dragPlaceId && dropTarget) {
+      setGuideDays(prev => movePlace(prev, dragPlaceId, dropTarget.dayId, dropTarget.index));
+    }
+    setDragPlaceId(null);
+    setDropTarget(null);
+  };
+
+  const updateDay = (dayId: string, patch: Partial<GuideDay>) =>
+    setGuideDays(prev => prev.map(d => (d.id === dayId ? { ...d, ...patch } : d)));
+
+  const addDay = () => {
+    const day = createGuideDay();
+    setGuideDays(prev => [...prev, day]);
+    setActiveDayId(day.id);
+  };
+
+  const closePlaceEditor = () => {
+    setEditingPlaceId(null);
+    setPickingPlaceId(null);
+  };
+
+  const placesNearHome = homeArea ? findPlacesNearHome(guidePlaces, homeArea) : [];
+
   const currentGuide: Guide = {
-      id: 'draft',
+      ...(baseGuide || createDraftGuide(author, guideId)),
+      // Follows profile changes
+      author,
       title: guideTitle,
-      author: MOCK_USER,
-      places: guidePlaces,
+      tags: guideTags,
+      locationName,
+      days: guideDays,
+      language: guideLanguageCode,
+      translations: guideTranslations,
       coverImage: guidePlaces[0]?.imageUrl || 'https://picsum.photos/seed/draft/800/600',
-      locationName: 'Draft Location',
-      createdAt: new Date().toISOString(),
-      status: 'draft'
   };
 
-  const publishGuide = () => {
-      alert("Guide published to WordPress (Simulated)!");
+  // The guide is named after the city most of its places are in
+  useEffect(() => {
+    let cancelled = false;
+    getLocationNameForPlaces(allPlaces(guideDays))
+      .then(name => {
+        if (name && !cancelled) setLocationName(name);
+      })
+      .catch(e => console.error("Could not name the guide's location", e));
+    return () => { cancelled = true; };
+  }, [guideDays]);
+
+  // Autosave whenever the builder diverges from the last stored copy; an untouched new draft is never stored
+  useEffect(() => {
+    if (!baseGuide) return;
+    if (
+      guideTitle === baseGuide.title && guideTags === baseGuide.tags && guideDays === baseGuide.days && locationName === baseGuide.locationName
+      && guideLanguageCode === baseGuide.language && guideTranslations === baseGuide.translations
+    ) return;
+
+    pendingSaveRef.current = currentGuide;
+    setSaveState('saving');
+    const timer = setTimeout(() => {
+      pendingSaveRef.current = null;
+      saveGuide(currentGuide)
+        .then(saved => {
+          setBaseGuide(saved);
+          setSaveState('saved');
+        })
+        .catch(e => {
+          console.error("Autosave failed", e);
+          setSaveState('error');
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [guideTitle, guideTags, guideDays, locationName, guideLanguageCode, guideTranslations, baseGuide]);
+
+  // Flush a pending autosave when leaving the builder
+  useEffect(() => {
+    return () => {
+      if (pendingSaveRef.current) {
+        saveGuide(pendingSaveRef.current).catch(e => console.error("Autosave failed", e));
+      }
+    };
+  }, []);
+
+  const publishGuide = async (config: WordPressConfig | null = wpConfig) => {
+      if (!config) {
+        setShowPublishSettings(true);
+        return;
+      }
+
+      setPublishState({ status: 'publishing', message: 'Preparing...' });
+      try {
+        pendingSaveRef.current = null;
+        const published = await publishGuideToWordPress(currentGuide, config, {
+          onProgress: message => setPublishState({ status: 'publishing', message })
+        });
+        setBaseGuide(await saveGuide(published));
+        setSaveState('saved');
+        setPublishState({ status: 'done' });
+      } catch (e: any) {
+        console.error("Publish failed", e);
+        setPublishState({ status: 'error', message: e.message || 'Publishing failed.' });
+        if (e instanceof WordPressPublishError && (e.step === 'config' || e.step === 'auth')) {
+          setShowPublishSettings(true);
+        }
+      }
+  };
+
+  const handleSavePublishSettings = (config: WordPressConfig) => {
+      saveWordPressConfig(config);
+      setWpConfig(config);
+      setShowPublishSettings(false);
   };
 
+  if (ownerName) {
+    return (
+      <div className="min-h-screen bg-brand-50 flex flex-col items-center justify-center gap-4 p-4 text-center">
+        <p className="font-serif text-2xl text-brand-900">This guide belongs to {ownerName}.</p>
+        <p className="text-sm text-brand-500">Only its author can edit it.</p>
+        <Link to="/"><Button variant="outline">Back to guides</Button></Link>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-screen bg-brand-50 overflow-hidden">
       {/* Sidebar / Chat */}
@@ -441,7 +1238,14 @@ const GuideCreator = () => {
            <Link to="/" className="text-brand-500 hover:text-brand-700 flex items-center gap-1 text-sm font-bold">
              &larr; Exit
            </Link>
-           <h2 className="font-serif font-bold text-brand-900">Guide Builder</h2>
+           <div className="flex items-center gap-3">
+             <span className="text-xs text-brand-400">
+               {saveState === 'saving' && 'Saving...'}
+               {saveState === 'saved' && 'Draft saved'}
+               {saveState === 'error' && 'Not saved'}
+             </span>
+             <h2 className="font-serif font-bold text-brand-900">Guide Builder</h2>
+           </div>
         </div>
 
         {/* Messages */}
@@ -453,9 +1257,31 @@ const GuideCreator = () => {
                  ? 'bg-brand-700 text-white rounded-tr-none' 
                  : 'bg-white text-brand-900 border border-brand-100 rounded-tl-none'
                }`}>
-                 {m.image && <img src={m.image} alt="Upload" className="mb-2 rounded-lg max-h-40 object-cover" />}
-                 <p className="whitespace-pre-wrap">{m.text}</p>
+                 {m.image && <PhotoImage src={m.image} rendition="thumbnail" alt="Upload" className="mb-2 rounded-lg max-h-40 object-cover" />}
+                 {m.text ? (
+                   <p className="whitespace-pre-wrap">{m.text}</p>
+                 ) : turnController && m === messages[messages.length - 1] && (
+                   <div className="flex gap-1 py-1">
+                     <span className="w-2 h-2 bg-brand-400 rounded-full animate-bounce"></span>
+                     <span className="w-2 h-2 bg-brand-400 rounded-full animate-bounce delay-75"></span>
+                     <span className="w-2 h-2 bg-brand-400 rounded-full animate-bounce delay-150"></span>
+                   </div>
+                 )}
+                 {m.stopped && <p className="mt-1 text-[11px] italic text-brand-400">Stopped</p>}
                  
+                 {/* Guide Edits */}
+                 {m.changes && m.changes.length > 0 && (
+                   <div className="mt-3 flex flex-wrap gap-1">
+                     {m.changes.map((c, i) => (
+                       <span key={i} className={`text-[11px] px-2 py-0.5 rounded-full ${
+                         c.kind === 'removed' ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-800'
+                       }`}>
+                         {c.kind === 'added' ? '+ ' : c.kind === 'removed' ? '− ' : '✎ '}{c.summary}
+                       </span>
+                     ))}
+                   </div>
+                 )}
+
                  {/* Grounding Citations */}
                  {m.groundingSources && m.groundingSources.length > 0 && (
                    <div className="mt-3 pt-2 border-t border-brand-200/20">
@@ -473,7 +1299,8 @@ const GuideCreator = () => {
                </div>
              </div>
            ))}
-           {isTyping && (
+           {/* Before the reply starts streaming, e.g. while a photo is analyzed */}
+           {isTyping && !turnController && (
              <div className="flex justify-start">
                <div className="bg-white p-3 rounded-xl rounded-tl-none border border-brand-100 flex gap-1">
                  <span className="w-2 h-2 bg-brand-400 rounded-full animate-bounce"></span>
@@ -487,7 +1314,32 @@ const GuideCreator = () => {
 
         {/* Input Area */}
         <div className="p-4 bg-white border-t border-brand-200 space-y-3">
-          <PhotoUploader onPhotoProcessed={handlePhotoProcessed} />
+          {isMultiDay && (
+            <label className="flex items-center justify-between gap-2 text-xs text-brand-600">
+              New places go to
+              <select
+                value={activeDay.id}
+                onChange={(e) => setActiveDayId(e.target.value)}
+                className="bg-brand-50 border border-brand-200 rounded px-2 py-1 text-brand-800"
+              >
+                {guideDays.map((day, idx) => <option key={day.id} value={day.id}>{dayHeading(day, idx)}</option>)}
+              </select>
+            </label>
+          )}
+          <PhotoUploader onPhotosProcessed={handlePhotosProcessed} />
+          <label className="block text-center text-xs text-brand-500 hover:text-brand-800 cursor-pointer">
+            Or import places from a GPX, KML or GeoJSON file
+            <input
+              type="file"
+              accept={GEO_FILE_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importGeoFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
           
           <div className="flex items-center gap-2">
             <input 
@@ -498,9 +1350,15 @@ const GuideCreator = () => {
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
             />
-            <Button onClick={handleSendMessage} disabled={!input.trim() && !isTyping}>
-              Send
-            </Button>
+            {isTyping ? (
+              <Button variant="secondary" onClick={() => turnController?.abort()} disabled={!turnController}>
+                Stop
+              </Button>
+            ) : (
+              <Button onClick={handleSendMessage} disabled={!input.trim()}>
+                Send
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -509,72 +1367,867 @@ const GuideCreator = () => {
       <div className="hidden md:flex flex-1 flex-col bg-brand-100 p-8 overflow-y-auto">
          <div className="max-w-2xl mx-auto w-full">
             <div className="flex items-center justify-between mb-8">
-               <input 
-                 value={guideTitle} 
-                 onChange={(e) => setGuideTitle(e.target.value)}
-                 className="bg-transparent border-b-2 border-transparent hover:border-brand-300 focus:border-brand-500 font-serif text-3xl text-brand-900 focus:outline-none w-full mr-4"
-               />
+               <div className="flex-1 mr-4">
+                 <input 
+                   value={guideTitle} 
+                   onChange={(e) => setGuideTitle(e.target.value)}
+                   className="bg-transparent border-b-2 border-transparent hover:border-brand-300 focus:border-brand-500 font-serif text-3xl text-brand-900 focus:outline-none w-full"
+                 />
+                 <p className="text-xs uppercase tracking-widest text-brand-500 mt-1">{locationName}</p>
+                 <TagEditor tags={guideTags || []} onChange={setGuideTags} />
+               </div>
                <div className="flex gap-2">
                  <Button variant="outline" onClick={() => setShowPreview(true)} disabled={guidePlaces.length === 0}>
                    Preview AMP
                  </Button>
-                 <Button onClick={publishGuide} disabled={guidePlaces.length === 0}>
-                   Publish
+                 <div className="relative">
+                   <Button variant="outline" onClick={() => setShowExportMenu(open => !open)} disabled={guidePlaces.length === 0}>
+                     Export
+                   </Button>
+                   {showExportMenu && (
+                     <div className="absolute right-0 mt-2 w-44 bg-white rounded-lg shadow-lg border border-brand-100 py-1 z-20">
+                       {guideLanguages(currentGuide).length > 1 && (
+                         <select
+                           value={exportLanguage || guideLanguage(currentGuide)}
+                           onChange={(e) => setExportLanguage(e.target.value)}
+                           className="block mx-3 my-1 w-[calc(100%-1.5rem)] bg-brand-50 border border-brand-200 rounded px-2 py-1 text-xs text-brand-800"
+                         >
+                           {guideLanguages(currentGuide).map(code => <option key={code} value={code}>{languageLabel(code)}</option>)}
+                         </select>
+                       )}
+                       {([['amp', 'AMP story'], ['gpx', 'GPX'], ['kml', 'KML'], ['geojson', 'GeoJSON']] as const).map(([format, label]) => (
+                         <button key={format} onClick={() => exportGuide(format)} className="block w-full text-left px-4 py-2 text-sm text-brand-800 hover:bg-brand-50">
+                           {label}
+                         </button>
+                       ))}
+                     </div>
+                   )}
+                 </div>
+                 <Button variant="outline" onClick={() => setShowTranslations(true)} disabled={guidePlaces.length === 0}>
+                   Translate
+                 </Button>
+                 <Button onClick={() => publishGuide()} disabled={guidePlaces.length === 0} isLoading={publishState.status === 'publishing'}>
+                   {baseGuide?.publication ? 'Republish' : 'Publish'}
+                 </Button>
+                 <Button variant="ghost" onClick={() => setShowPublishSettings(true)} title="Publishing settings">
+                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                  </Button>
                </div>
             </div>
 
+            {/* Publish Status */}
+            {publishState.status === 'publishing' && (
+              <p className="text-sm text-brand-600 mb-6">{publishState.message}</p>
+            )}
+            {publishState.status === 'error' && (
+              <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-6">{publishState.message}</div>
+            )}
+            {publishState.status !== 'publishing' && publishState.status !== 'error' && baseGuide?.publication && (
+              <p className="text-sm text-brand-600 mb-6">
+                {publishState.status === 'done' ? 'Published! ' : 'Last published '}
+                <a href={baseGuide.publication.url} target="_blank" rel="noopener noreferrer" className="underline text-brand-800">
+                  {publishState.status === 'done' ? 'View on WordPress' : new Date(baseGuide.publication.publishedAt).toLocaleString()}
+                </a>
+                {' · '}
+                <Link to={`/guide/${guideId}`} className="underline text-brand-800">Guide page</Link>
+              </p>
+            )}
+
+            {/* Privacy Warning */}
+            {placesNearHome.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg p-3 mb-6 flex items-center justify-between gap-4">
+                <span>
+                  {placesNearHome.map(p => p.name).join(', ')} {placesNearHome.length === 1 ? 'is' : 'are'} within {formatDistance(HOME_RADIUS_KM)} of
+                  where you are now. If that's your home, publish {placesNearHome.length === 1 ? 'it' : 'them'} with an approximate location.
+                </span>
+                <Button variant="outline" size="sm" className="whitespace-nowrap" onClick={() => placesNearHome.forEach(p => updatePlace(p.id, { approximate: true }))}>
+                  Make approximate
+                </Button>
+              </div>
+            )}
+
             {/* Map Visualization */}
-            <GuideMap places={guidePlaces} />
+            <GuideMap
+              days={guideDays}
+              onMovePlace={(placeId, coordinates) => updatePlace(placeId, { coordinates })}
+              pickingPlaceId={pickingPlaceId}
+              onPickLocation={(coordinates) => {
+                if (pickingPlaceId) updatePlace(pickingPlaceId, { coordinates });
+                setPickingPlaceId(null);
+              }}
+            />
 
-            {/* Places List */}
-            {guidePlaces.length === 0 ? (
+            {/* Days */}
+            {guidePlaces.length === 0 && !isMultiDay ? (
               <div className="border-2 border-dashed border-brand-300 rounded-xl p-12 text-center text-brand-500">
                  <p className="font-serif text-xl mb-2">Your guide is empty</p>
                  <p className="text-sm">Chat with the AI or upload photos to start.</p>
               </div>
             ) : (
-              <div className="space-y-6">
-                 {guidePlaces.map((place, idx) => (
-                   <div key={idx} className="bg-white p-4 rounded-xl shadow-sm flex gap-4">
-                      {place.imageUrl && (
-                        <img src={place.imageUrl} alt={place.name} className="w-24 h-24 rounded-lg object-cover flex-shrink-0" />
+              <div className="space-y-12">
+                {guideDays.map((day, dayIdx) => {
+                  const timeline = buildTimeline(day.places);
+                  const routeLegs = buildRouteLegs(day.places);
+                  const legsByDestination = new Map(routeLegs.map(leg => [leg.toPlaceId, leg]));
+                  return (
+                    <section key={day.id}>
+                      {/* Day Header */}
+                      {isMultiDay && (
+                        <div className="flex items-start gap-3 mb-4">
+                          <span className="mt-7 w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: dayColor(dayIdx) }} />
+                          <div className="flex-1">
+                            <p className="text-xs uppercase tracking-widest text-brand-500">Day {dayIdx + 1}</p>
+                            <input
+                              value={day.title}
+                              placeholder={`Day ${dayIdx + 1}`}
+                              onChange={(e) => updateDay(day.id, { title: e.target.value })}
+                              className="bg-transparent border-b-2 border-transparent hover:border-brand-300 focus:border-brand-500 font-serif text-2xl text-brand-900 placeholder-brand-300 focus:outline-none w-full"
+                            />
+                            <textarea
+                              value={day.notes || ''}
+                              placeholder="Notes for this day"
+                              rows={2}
+                              onChange={(e) => updateDay(day.id, { notes: e.target.value || undefined })}
+                              className="mt-1 w-full bg-transparent text-sm text-brand-700 placeholder-brand-300 border border-transparent hover:border-brand-200 focus:border-brand-300 focus:bg-white rounded-lg px-2 py-1 focus:outline-none resize-none"
+                            />
+                          </div>
+                          <div className="flex flex-col items-end gap-1 text-xs pt-5">
+                            {day.id === activeDay.id ? (
+                              <span className="font-bold text-brand-700">New places go here</span>
+                            ) : (
+                              <button onClick={() => setActiveDayId(day.id)} className="text-brand-500 hover:underline">Add new places here</button>
+                            )}
+                            <button
+                              onClick={() => setGuideDays(prev => removeDay(prev, day.id))}
+                              className="text-brand-400 hover:text-red-500"
+                              title={day.places.length > 0 ? `Its places move to ${dayIdx === 0 ? 'the next' : 'the previous'} day` : undefined}
+                            >
+                              Remove day
+                            </button>
+                          </div>
+                        </div>
                       )}
-                      <div className="flex-1">
-                        <h3 className="font-serif text-xl text-brand-900 flex items-center gap-2">
-                           {place.name}
-                           {place.coordinates && (
-                               <svg className="w-4 h-4 text-green-600" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd"/></svg>
-                           )}
-                        </h3>
-                        <p className="text-xs text-brand-400 mb-2">{place.address}</p>
-                        <p className="text-sm text-brand-700 leading-relaxed">{place.description}</p>
+
+                      <DayTimeline places={day.places} timeline={timeline} route={summarizeRoute(routeLegs)} />
+
+                      {/* Route Optimization */}
+                      {day.places.filter(p => p.coordinates).length >= 3 && (
+                        <div className="flex flex-wrap items-center gap-4 mb-6 text-sm text-brand-700">
+                          <Button variant="outline" size="sm" onClick={() => updateDay(day.id, { places: optimizePlaceOrder(day.places, routeOptions) })}>
+                            Optimize order
+                          </Button>
+                          <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={routeOptions.fixStart} onChange={(e) => setRouteOptions(prev => ({ ...prev, fixStart: e.target.checked }))} />
+                            Keep first stop
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={routeOptions.fixEnd} onChange={(e) => setRouteOptions(prev => ({ ...prev, fixEnd: e.target.checked }))} />
+                            Keep last stop
+                          </label>
+                        </div>
+                      )}
+
+                      {/* Places List */}
+                      <div className="space-y-6">
+                        {day.places.map((place, idx) => (
+                          <React.Fragment key={place.id}>
+                            {legsByDestination.has(place.id) && (
+                              <div className="-my-3 pl-5 flex items-center gap-2 text-xs text-brand-500">
+                                <span className="h-6 border-l-2 border-dashed border-brand-300" />
+                                {formatDistance(legsByDestination.get(place.id)!.distanceKm)} · {formatDuration(legsByDestination.get(place.id)!.walkingMinutes)} walk
+                              </div>
+                            )}
+                            {editingPlaceId === place.id ? (
+                              <PlaceEditor
+                                guideId={guideId}
+                                place={place}
+                                isPickingOnMap={pickingPlaceId === place.id}
+                                onChange={(patch) => updatePlace(place.id, patch)}
+                                onTogglePickOnMap={() => setPickingPlaceId(prev => (prev === place.id ? null : place.id))}
+                                onClose={closePlaceEditor}
+                              />
+                            ) : (
+                              <div
+                                draggable
+                                onDragStart={(e) => {
+                                  e.dataTransfer.effectAllowed = 'move';
+                                  setDragPlaceId(place.id);
+                                }}
+                                onDragOver={(e) => {
+                                  if (dragPlaceId === null) return;
+                                  e.preventDefault();
+                                  setDropTarget({ dayId: day.id, index: idx });
+                                }}
+                                onDrop={(e) => {
+                                  e.preventDefault();
+                                  finishPlaceDrag();
+                                }}
+                                onDragEnd={() => { setDragPlaceId(null); setDropTarget(null); }}
+                                className={`bg-white p-4 rounded-xl shadow-sm flex gap-4 cursor-grab transition-opacity ${
+                                  dragPlaceId === place.id ? 'opacity-40' : ''
+                                } ${dropTarget?.dayId === day.id && dropTarget.index === idx && dragPlaceId !== place.id ? 'ring-2 ring-brand-500' : ''}`}
+                              >
+                                <div className="flex flex-col items-center gap-1 flex-shrink-0 w-10">
+                                  <span className="w-7 h-7 rounded-full text-white text-xs font-bold flex items-center justify-center" style={{ backgroundColor: dayColor(dayIdx) }}>{idx + 1}</span>
+                                  <span className={`text-[10px] font-bold ${timeline[idx]?.overlaps ? 'text-red-600' : 'text-brand-500'}`}>
+                                    {timeline[idx] && formatTime(timeline[idx].start)}
+                                  </span>
+                                </div>
+                                {place.imageUrl && (
+                                  <PhotoImage src={place.imageUrl} rendition="thumbnail" alt={place.name} className="w-24 h-24 rounded-lg object-cover flex-shrink-0" />
+                                )}
+                                <div className="flex-1">
+                                  <h3 className="font-serif text-xl text-brand-900 flex items-center gap-2">
+                                     {place.name}
+                                     {place.coordinates && (
+                                         <svg className="w-4 h-4 text-green-600" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd"/></svg>
+                                     )}
+                                     {place.approximate && (
+                                         <span className="font-sans text-[10px] font-bold uppercase tracking-wider text-brand-600 bg-brand-100 rounded px-1.5 py-0.5" title="Published with a rough position and no address">Approximate</span>
+                                     )}
+                                  </h3>
+                                  <p className="text-xs text-brand-400 mb-2">{place.address}</p>
+                                  <p className="text-sm text-brand-700 leading-relaxed">{place.description}</p>
+                                  <PlaceMapsDetails place={place} />
+                                  {place.gallery && place.gallery.length > 1 && (
+                                    <div className="flex gap-1 mt-2">
+                                      {place.gallery.slice(0, 6).map((url, photoIdx) => (
+                                        <button key={photoIdx} onClick={() => updatePlace(place.id, { imageUrl: url })} title="Use as cover">
+                                          <PhotoImage src={url} rendition="thumbnail" alt="" className={`w-8 h-8 rounded object-cover ${url === place.imageUrl ? 'ring-2 ring-brand-500' : ''}`} />
+                                        </button>
+                                      ))}
+                                      {place.gallery.length > 6 && (
+                                        <span className="w-8 h-8 rounded bg-brand-100 text-[10px] font-bold text-brand-600 flex items-center justify-center">+{place.gallery.length - 6}</span>
+                                      )}
+                                    </div>
+                                  )}
+                                  {!place.coordinates && (
+                                    <button onClick={() => { setEditingPlaceId(place.id); setPickingPlaceId(place.id); }} className="mt-2 text-xs font-bold text-brand-700 hover:underline">
+                                      + Set location on map
+                                    </button>
+                                  )}
+                                </div>
+                                <div className="flex flex-col items-center gap-2 self-start">
+                                  <button onClick={() => removePlace(place.id)} className="text-brand-300 hover:text-red-500" title="Remove">
+                                    &times;
+                                  </button>
+                                  <button onClick={() => { setEditingPlaceId(place.id); setPickingPlaceId(null); }} className="text-brand-300 hover:text-brand-700" title="Edit">
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                                  </button>
+                                  {isMultiDay && (
+                                    <select
+                                      value={day.id}
+                                      onChange={(e) => setGuideDays(prev => movePlace(prev, place.id, e.target.value, Infinity))}
+                                      className="text-[10px] text-brand-600 bg-transparent border border-brand-200 rounded"
+                                      title="Move to another day"
+                                    >
+                                      {guideDays.map((d, i) => <option key={d.id} value={d.id}>Day {i + 1}</option>)}
+                                    </select>
+                                  )}
+                                </div>
+                              </div>
+                            )}
+                          </React.Fragment>
+                        ))}
                       </div>
-                      <button 
-                        onClick={() => setGuidePlaces(prev => prev.filter((_, i) => i !== idx))}
-                        className="text-brand-300 hover:text-red-500 self-start"
-                      >
-                        &times;
-                      </button>
-                   </div>
-                 ))}
+
+                      {/* Drop zone at the end of the day, the only one an empty day has */}
+                      {isMultiDay && (dragPlaceId !== null || day.places.length === 0) && (
+                        <div
+                          onDragOver={(e) => {
+                            if (dragPlaceId === null) return;
+                            e.preventDefault();
+                            setDropTarget({ dayId: day.id, index: day.places.length });
+                          }}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            finishPlaceDrag();
+                          }}
+                          className={`mt-4 border-2 border-dashed rounded-xl p-4 text-center text-xs text-brand-400 ${
+                            dropTarget?.dayId === day.id && dropTarget.index === day.places.length ? 'border-brand-500' : 'border-brand-200'
+                          }`}
+                        >
+                          {day.places.length === 0 ? 'No places yet. Drag places here or add new ones to this day.' : 'Drop here to move to the end of the day'}
+                        </div>
+                      )}
+                    </section>
+                  );
+                })}
               </div>
             )}
+
+            {guidePlaces.length > 0 && (
+              <button onClick={addDay} className="mt-8 w-full border-2 border-dashed border-brand-300 rounded-xl py-3 text-sm font-bold text-brand-600 hover:border-brand-500 hover:text-brand-800">
+                + Add a day
+              </button>
+            )}
          </div>
       </div>
       
       {showPreview && <StoryPreview guide={currentGuide} onClose={() => setShowPreview(false)} />}
+      {pendingClusters && (
+        <PhotoClusterReview clusters={pendingClusters} onConfirm={importPhotoClusters} onCancel={() => setPendingClusters(null)} />
+      )}
+      {showTranslations && (
+        <TranslationPanel
+          guide={currentGuide}
+          onLanguageChange={setGuideLanguageCode}
+          onTranslationsChange={update => setGuideTranslations((prev?: GuideTranslation[]) => update(prev || []))}
+          onClose={() => setShowTranslations(false)}
+        />
+      )}
+      {showPublishSettings && (
+        <PublishSettings
+          initialConfig={wpConfig}
+          onSave={handleSavePublishSettings}
+          onClose={() => setShowPublishSettings(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+// Every new guide gets its own id up front so the URL can be reopened later
+const NewGuideRedirect = () => <Navigate to={`/create/${generateId()}`} replace />;
+
+const GuideCreatorPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const user = useCurrentUser();
+  const location = useLocation();
+  if (!id) return <Navigate to="/" replace />;
+  if (user === undefined) return null;
+  if (!user) return <Navigate to={`/signin?next=${encodeURIComponent(location.pathname)}`} replace />;
+  // Keyed so switching drafts starts from a clean builder state
+  return <GuideCreator key={id} guideId={id} author={user} />;
+};
+
+// Only paths inside the app, so a crafted link can't send people elsewhere after signing in
+const safeNextPath = (next: string | null) => (next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+
+const AuthPage = () => {
+  const user = useCurrentUser();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [form, setForm] = useState({ name: '', email: '', password: '' });
+  const [state, setState] = useState<{ status: 'idle' | 'busy' | 'error'; message?: string }>({ status: 'idle' });
+
+  if (user && state.status !== 'busy') return <Navigate to={nextPath} replace />;
+
+  const update = (key: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(prev => ({ ...prev, [key]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setState({ status: 'busy' });
+    try {
+      if (mode === 'signup') {
+        const created = await signUp(form.email, form.password, form.name);
+        await setGuidesAuthor(LEGACY_AUTHOR_ID, created).catch(err => console.error("Could not take over earlier guides", err));
+      } else {
+        await signIn(form.email, form.password);
+      }
+      navigate(nextPath, { replace: true });
+    } catch (err: any) {
+      setState({ status: 'error', message: err.message || 'Something went wrong, please try again.' });
+    }
+  };
+
+  const inputClass = "w-full bg-brand-50 border border-brand-200 focus:border-brand-400 focus:ring-0 rounded-lg px-3 py-2 text-brand-900 text-sm";
+
+  return (
+    <div className="min-h-screen bg-brand-50">
+      <Header />
+      <div className="max-w-sm mx-auto px-4 py-16">
+        <h1 className="font-serif text-3xl text-brand-900 mb-2">{mode === 'signin' ? 'Welcome back' : 'Create your account'}</h1>
+        <p className="text-sm text-brand-500 mb-8">
+          {mode === 'signin' ? 'Sign in to build and publish your guides.' : 'Your guides will carry your name and link to your profile.'}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'signup' && (
+            <label className="block text-xs font-bold text-brand-600 space-y-1">
+              <span>Name</span>
+              <input className={inputClass} value={form.name} onChange={update('name')} autoComplete="name" required />
+            </label>
+          )}
+          <label className="block text-xs font-bold text-brand-600 space-y-1">
+            <span>Email</span>
+            <input className={inputClass} type="email" value={form.email} onChange={update('email')} autoComplete="email" required />
+          </label>
+          <label className="block text-xs font-bold text-brand-600 space-y-1">
+            <span>Password</span>
+            <input
+              className={inputClass}
+              type="password"
+              value={form.password}
+              onChange={update('password')}
+              autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+              required
+            />
+          </label>
+          {state.status === 'error' && <p className="text-sm text-red-600">{state.message}</p>}
+          <Button type="submit" className="w-full" isLoading={state.status === 'busy'}>
+            {mode === 'signin' ? 'Sign in' : 'Sign up'}
+          </Button>
+        </form>
+        <p className="text-sm text-brand-500 mt-6 text-center">
+          {mode === 'signin' ? 'New here? ' : 'Already have an account? '}
+          <button
+            onClick={() => { setMode(mode === 'signin' ? 'signup' : 'signin'); setState({ status: 'idle' }); }}
+            className="font-bold text-brand-700 hover:underline"
+          >
+            {mode === 'signin' ? 'Create an account' : 'Sign in'}
+          </button>
+        </p>
+      </div>
     </div>
   );
 };
 
+const ProfilePage = () => {
+  const { id } = useParams<{ id: string }>();
+  const currentUser = useCurrentUser();
+  const [storedProfile, setStoredProfile] = useState<User | null | undefined>(undefined);
+  // null until loaded
+  const [guides, setGuides] = useState<Guide[] | null>(null);
+  const [editing, setEditing] = useState(false);
+
+  const loadGuides = () =>
+    listGuides('published')
+      .then(published => setGuides(published.filter(g => g.author.id === id)))
+      .catch(e => {
+        console.error("Could not load the author's guides", e);
+        setGuides([]);
+      });
+
+  useEffect(() => {
+    getUserProfile(id || '')
+      .then(setStoredProfile)
+      .catch(e => {
+        console.error("Could not load the profile", e);
+        setStoredProfile(null);
+      });
+    loadGuides();
+  }, [id]);
+
+  const isOwnProfile = !!currentUser && currentUser.id === id;
+  // Authors without an account here are known from the guides they signed
+  const profile: User | null | undefined = isOwnProfile
+    ? currentUser
+    : storedProfile || (storedProfile === null && guides ? guides[0]?.author || null : undefined);
+
+  const saveProfile = async (updated: User) => {
+    const saved = await updateProfile(updated);
+    await setGuidesAuthor(saved.id, saved);
+    await loadGuides();
+    setEditing(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-brand-50 pb-20">
+      <Header />
+      {profile === null && (
+        <div className="max-w-5xl mx-auto px-4 py-16 text-center text-brand-500">
+          <p className="font-serif text-2xl text-brand-900 mb-2">No author here</p>
+          <Link to="/" className="text-sm font-bold text-brand-700 hover:underline">Back to guides</Link>
+        </div>
+      )}
+      {profile && (
+        <>
+          <div className="bg-white border-b border-brand-200 py-12 px-4">
+            <div className="max-w-5xl mx-auto flex flex-col sm:flex-row items-center sm:items-start gap-6">
+              <img src={profile.avatar} alt={profile.name} className="w-24 h-24 rounded-full object-cover border-2 border-brand-200" />
+              <div className="flex-1 text-center sm:text-left">
+                <h1 className="font-serif text-4xl text-brand-900">{profile.name}</h1>
+                {profile.homeCity && <p className="text-xs uppercase tracking-widest text-brand-500 mt-1">{profile.homeCity}</p>}
+                {profile.bio && <p className="text-brand-700 mt-4 max-w-xl whitespace-pre-line">{profile.bio}</p>}
+              </div>
+              {isOwnProfile && (
+                <Button variant="outline" onClick={() => setEditing(true)}>Edit profile</Button>
+              )}
+            </div>
+          </div>
+
+          <div className="max-w-5xl mx-auto px-4 py-12">
+            <h2 className="font-serif text-3xl mb-8 text-brand-900">
+              {guides?.length ? `${guides.length} Published ${guides.length === 1 ? 'Guide' : 'Guides'}` : 'Published Guides'}
+            </h2>
+            {guides?.length === 0 && (
+              <div className="border-2 border-dashed border-brand-300 rounded-xl p-12 text-center text-brand-500">
+                <p className="font-serif text-xl mb-2">Nothing published yet</p>
+                {isOwnProfile && <p className="text-sm">Publish a guide and it will show up here.</p>}
+              </div>
+            )}
+            {!!guides?.length && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {guides.map(guide => (
+                  <GuideCard key={guide.id} guide={guide} />
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {editing && currentUser && (
+        <ProfileEditor user={currentUser} onSave={saveProfile} onClose={() => setEditing(false)} />
+      )}
+    </div>
+  );
+};
+
+// Link to a guide's page in this app, as HashRouter routes it
+const guideShareUrl = (guideId: string) => `${window.location.origin}${window.location.pathname}#/guide/${guideId}`;
+
+// The guide behind /guide/:id: published ones for everyone, drafts only for their author; undefined while loading
+const useViewableGuide = (id?: string): Guide | null | undefined => {
+  const user = useCurrentUser();
+  const [guide, setGuide] = useState<Guide | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    setGuide(undefined);
+    getGuide(id || '')
+      .then(stored => { if (!cancelled) setGuide(stored); })
+      .catch(e => {
+        console.error("Could not load the guide", e);
+        if (!cancelled) setGuide(null);
+      });
+    return () => { cancelled = true; };
+  }, [id]);
+
+  if (guide === undefined || (guide && guide.status !== 'published' && user === undefined)) return undefined;
+  return guide && (guide.status === 'published' || guide.author.id === user?.id) ? guide : null;
+};
+
+const GuidePage = () => {
+  const { id } = useParams<{ id: string }>();
+  const user = useCurrentUser();
+  const guide = useViewableGuide(id);
+  const [showShare, setShowShare] = useState(false);
+
+  if (guide === undefined) return <div className="min-h-screen bg-brand-50"><Header /></div>;
+  if (!guide) {
+    return (
+      <div className="min-h-screen bg-brand-50">
+        <Header />
+        <div className="max-w-5xl mx-auto px-4 py-16 text-center text-brand-500">
+          <p className="font-serif text-2xl text-brand-900 mb-2">This guide isn't here</p>
+          <p className="text-sm mb-4">It may be unpublished, or saved in another browser.</p>
+          <Link to="/" className="text-sm font-bold text-brand-700 hover:underline">Back to guides</Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Readers get what publishing shows: private places only roughly located
+  const publicGuide = applyLocationPrivacy(guide);
+  const places = allPlaces(publicGuide.days);
+  const sources = places.filter(p => p.mapsUri);
+  const isMultiDay = publicGuide.days.length > 1;
+  const isAuthor = guide.author.id === user?.id;
+  // Walks start wherever the author was, often at home, so only they see them
+  const walks = isAuthor ? guide.walks || [] : [];
+
+  return (
+    <div className="min-h-screen bg-brand-50 pb-20">
+      <Header />
+
+      <div className="relative h-72 bg-brand-900">
+        <PhotoImage src={publicGuide.coverImage} alt="" className="absolute inset-0 w-full h-full object-cover opacity-70" />
+        <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent" />
+        <div className="absolute bottom-6 inset-x-0 max-w-3xl mx-auto px-4 text-white">
+          <span className="text-brand-200 uppercase tracking-widest text-xs font-bold">{publicGuide.locationName}</span>
+          <h1 className="font-serif text-4xl md:text-5xl mt-1">{publicGuide.title}</h1>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        {guide.status !== 'published' && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg p-3 mb-6">
+            This is a draft, only you can see it.
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <Link to={`/u/${publicGuide.author.id}`} className="flex items-center gap-3 hover:underline">
+            <img src={publicGuide.author.avatar} alt={publicGuide.author.name} className="w-10 h-10 rounded-full object-cover" />
+            <div>
+              <p className="text-sm font-bold text-brand-900">{publicGuide.author.name}</p>
+              <p className="text-xs text-brand-500">
+                {places.length} {places.length === 1 ? 'place' : 'places'}{isMultiDay && ` in ${publicGuide.days.length} days`}
+              </p>
+            </div>
+          </Link>
+          <div className="flex gap-2">
+            {isAuthor && (
+              <Link to={`/create/${guide.id}`}><Button variant="ghost">Edit</Button></Link>
+            )}
+            <Button variant="outline" onClick={() => setShowShare(true)}>Share</Button>
+            <Link to={`/guide/${guide.id}/walk`}><Button variant="outline" disabled={!places.some(p => p.coordinates)}>Start walk</Button></Link>
+            <Link to={`/guide/${guide.id}/story`}><Button disabled={places.length === 0}>View story</Button></Link>
+          </div>
+        </div>
+
+        <GuideMap days={publicGuide.days} tracks={walks.map(w => w.track)} />
+
+        {walks.length > 0 && (
+          <p className="text-xs text-brand-500 -mt-4 mb-8">
+            Walked {walks.length} {walks.length === 1 ? 'time' : 'times'}, last on {new Date(walks[walks.length - 1].startedAt).toLocaleDateString()} ({formatDistance(walks[walks.length - 1].distanceKm)}).
+          </p>
+        )}
+
+        {publicGuide.days.map((day, dayIndex) => {
+          const timeline = hasSchedule(day.places) ? buildTimeline(day.places) : [];
+          return (
+            <section key={day.id} className="mb-10">
+              {isMultiDay && (
+                <div className="mb-4">
+                  <h2 className="font-serif text-2xl text-brand-900 flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: dayColor(dayIndex) }} />
+                    {dayHeading(day, dayIndex)}
+                  </h2>
+                  {day.notes && <p className="text-sm text-brand-600 mt-1 whitespace-pre-line">{day.notes}</p>}
+                </div>
+              )}
+              <ol className="space-y-4">
+                {day.places.map((place, idx) => {
+                  const stop = timeline.find(t => t.placeId === place.id);
+                  return (
+                    <li key={place.id} className="bg-white rounded-xl p-4 shadow-sm border border-brand-100 flex gap-4">
+                      <div className="relative flex-shrink-0">
+                        <PhotoImage src={place.imageUrl} rendition="thumbnail" alt={place.name} className="w-24 h-24 rounded-lg object-cover" />
+                        <span
+                          className="absolute -top-2 -left-2 w-7 h-7 rounded-full border-2 border-white text-white text-xs font-bold flex items-center justify-center shadow"
+                          style={{ backgroundColor: dayColor(dayIndex) }}
+                        >
+                          {idx + 1}
+                        </span>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        {stop && <p className="text-xs font-bold uppercase tracking-wider text-brand-500">{formatTime(stop.start)} – {formatTime(stop.end)}</p>}
+                        <h3 className="font-serif text-xl font-bold text-brand-900">{place.name}</h3>
+                        <p className="text-sm text-brand-700 mt-1">{place.description}</p>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-brand-500">
+                          {place.address && <span>{place.address}</span>}
+                          {place.approximate && <span>Approximate location</span>}
+                          {place.rating !== undefined && <span title={ratingTooltip(place)}>{formatRating(place)}</span>}
+                          {place.mapsUri && (
+                            <a href={place.mapsUri} target="_blank" rel="noopener noreferrer" className="text-brand-700 underline">Open in Google Maps</a>
+                          )}
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </section>
+          );
+        })}
+
+        {sources.length > 0 && (
+          <div className="pt-4 border-t border-brand-200">
+            <p className="text-xs text-brand-500 font-bold mb-1">Sources (Google Maps):</p>
+            <div className="flex flex-wrap gap-2">
+              {sources.map(p => (
+                <a key={p.id} href={p.mapsUri} target="_blank" rel="noopener noreferrer" className="text-xs text-brand-700 underline truncate max-w-[200px]">
+                  {p.name}
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showShare && (
+        <ShareDialog
+          title={publicGuide.title}
+          url={guideShareUrl(guide.id)}
+          publishedUrl={guide.publication?.url}
+          onClose={() => setShowShare(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+// Follows the walker's position along the guide; arriving at a stop moves the card and the story on to the next one
+const GuideWalkPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const user = useCurrentUser();
+  const guide = useViewableGuide(id);
+  const [walk, setWalk] = useState<WalkState | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [finished, setFinished] = useState<GuideWalk | null>(null);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [showStory, setShowStory] = useState(false);
+  const [storyIndex, setStoryIndex] = useState(0);
+
+  // Walkers get what readers get: private places only roughly located
+  const publicGuide = useMemo(() => (guide ? applyLocationPrivacy(guide) : null), [guide]);
+  const isWalking = !!walk && !finished;
+  const next = walk ? nextStop(walk) : null;
+
+  useEffect(() => {
+    if (publicGuide) setWalk(startWalk(publicGuide));
+  }, [publicGuide]);
+
+  useEffect(() => {
+    if (!isWalking) return;
+    return watchPosition(
+      fix => {
+        setLocationError(null);
+        setWalk(prev => (prev ? updateWalk(prev, fix) : prev));
+      },
+      () => setLocationError("Can't get your location. Allow location access to follow the guide.")
+    );
+  }, [isWalking]);
+
+  // The story follows the walk: its card is the stop the walker is heading to
+  useEffect(() => {
+    if (!publicGuide || !next) return;
+    const page = buildStoryPages(publicGuide).findIndex(p => p.placeData?.id === next.id);
+    if (page >= 0) setStoryIndex(page);
+  }, [publicGuide, next?.id]);
+
+  const track = useMemo(() => (walk ? [walk.track] : []), [walk?.track]);
+
+  if (guide === undefined || (guide && !walk)) return <div className="min-h-screen bg-brand-50" />;
+  if (!guide || !publicGuide || !walk) return <Navigate to={`/guide/${id}`} replace />;
+
+  const position = walk.position;
+  const distanceToNext = next && position ? distanceKm(position, next.coordinates!) : null;
+  const bearing = next && position ? bearingDegrees(position, next.coordinates!) : null;
+
+  const saveWalk = async () => {
+    if (!finished) return;
+    setSaveState('saving');
+    try {
+      await addGuideWalk(guide.id, finished);
+      setSaveState('saved');
+    } catch (e) {
+      console.error("Could not save the walk", e);
+      setSaveState('error');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-brand-50">
+      <div className="p-4 border-b border-brand-200 bg-white flex items-center justify-between gap-4">
+        <Link to={`/guide/${guide.id}`} className="text-brand-500 hover:text-brand-700 text-sm font-bold">&larr; Guide</Link>
+        <h1 className="font-serif text-lg text-brand-900 truncate">{publicGuide.title}</h1>
+        {isWalking
+          ? <Button variant="outline" onClick={() => setFinished(finishWalk(walk))}>End walk</Button>
+          : <span />}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <div className="max-w-2xl mx-auto">
+          <GuideMap
+            days={publicGuide.days}
+            userPosition={position}
+            highlightPlaceId={isWalking ? next?.id : null}
+            tracks={track}
+          />
+
+          {locationError && isWalking && (
+            <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">{locationError}</div>
+          )}
+
+          {finished ? (
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-brand-100 space-y-4 text-center">
+              <h2 className="font-serif text-2xl text-brand-900">Walk finished</h2>
+              <p className="text-sm text-brand-600">
+                {formatDistance(finished.distanceKm)} walked &middot; {Object.keys(finished.arrivals).length} of {walk.stops.length} stops
+                &middot; {formatDuration(Math.round((Date.parse(finished.endedAt) - Date.parse(finished.startedAt)) / 60000))}
+              </p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {guide.author.id === user?.id && (
+                  <Button onClick={saveWalk} isLoading={saveState === 'saving'} disabled={saveState === 'saved' || finished.track.length === 0}>
+                    {saveState === 'saved' ? 'Saved to the guide' : 'Save to the guide'}
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => downloadWalkGpx(publicGuide, finished)} disabled={finished.track.length === 0}>
+                  Download track (GPX)
+                </Button>
+              </div>
+              {saveState === 'error' && <p className="text-sm text-red-600">The walk could not be saved.</p>}
+            </div>
+          ) : next ? (
+            <div className="bg-white rounded-xl shadow-sm border border-brand-100 overflow-hidden">
+              <PhotoImage src={next.imageUrl} alt={next.name} className="w-full h-48 object-cover" />
+              <div className="p-5 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-xs font-bold uppercase tracking-wider text-brand-500">Stop {walk.nextIndex + 1} of {walk.stops.length}</span>
+                  {distanceToNext !== null && bearing !== null ? (
+                    <span className="flex items-center gap-2 text-sm font-bold text-brand-800">
+                      <span className="inline-block" style={{ transform: `rotate(${bearing}deg)` }}>&uarr;</span>
+                      {formatDistance(distanceToNext)} {compassPoint(bearing)}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-brand-400">Finding your location...</span>
+                  )}
+                </div>
+                <h2 className="font-serif text-2xl font-bold text-brand-900">{next.name}</h2>
+                <p className="text-sm text-brand-700">{next.description}</p>
+                {next.address && <p className="text-xs text-brand-500">{next.address}</p>}
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <Button variant="ghost" onClick={() => setWalk(skipStop(walk, -1))} disabled={walk.nextIndex === 0}>Previous</Button>
+                  <Button variant="ghost" onClick={() => setWalk(skipStop(walk, 1))}>Skip</Button>
+                  <Button variant="outline" onClick={() => setShowStory(true)}>Open story</Button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-brand-100 space-y-4 text-center">
+              <h2 className="font-serif text-2xl text-brand-900">You made it to every stop</h2>
+              <Button onClick={() => setFinished(finishWalk(walk))}>Finish walk</Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showStory && (
+        <StoryPreview guide={guide} pageIndex={storyIndex} onPageChange={setStoryIndex} onClose={() => setShowStory(false)} />
+      )}
+    </div>
+  );
+};
+
+// Full-screen story; the page is in the URL (?page=1 is the cover) so any page can be linked to
+const GuideStoryPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const guide = useViewableGuide(id);
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  if (guide === undefined) return <div className="fixed inset-0 bg-black" />;
+  if (!guide) return <Navigate to={`/guide/${id}`} replace />;
+
+  const pageIndex = Math.max(Math.floor(Number(searchParams.get('page'))) || 1, 1) - 1;
+  return (
+    <StoryPreview
+      guide={guide}
+      pageIndex={pageIndex}
+      onPageChange={index => setSearchParams({ page: String(index + 1) }, { replace: true })}
+      onClose={() => navigate(`/guide/${guide.id}`)}
+    />
+  );
+};
 
 const App = () => {
   return (
     <HashRouter>
       <Routes>
         <Route path="/" element={<Dashboard />} />
-        <Route path="/create" element={<GuideCreator />} />
+        <Route path="/create" element={<NewGuideRedirect />} />
+        <Route path="/create/:id" element={<GuideCreatorPage />} />
+        <Route path="/signin" element={<AuthPage />} />
+        <Route path="/u/:id" element={<ProfilePage />} />
+        <Route path="/guide/:id" element={<GuidePage />} />
+        <Route path="/guide/:id/story" element={<GuideStoryPage />} />
+        <Route path="/guide/:id/walk" element={<GuideWalkPage />} />
       </Routes>
     </HashRouter>
   );
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Place } from '../types';
+import { formatDuration, formatTime, TimelineStop } from '../services/itinerary';
+import { formatDistance } from '../services/routePlanner';
+
+type DayTimelineProps = {
+  places: Place[];
+  timeline: TimelineStop[];
+  route: { distanceKm: number; walkingMinutes: number };
+};
+
+// The day at a glance: one numbered block per stop, sized by its duration
+export const DayTimeline: React.FC<DayTimelineProps> = ({ places, timeline, route }) => {
+  if (timeline.length === 0) return null;
+
+  const dayStart = Math.min(...timeline.map(s => s.start));
+  const dayEnd = Math.max(...timeline.map(s => s.end));
+  const span = Math.max(dayEnd - dayStart, 1);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4 mb-6">
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="font-bold text-sm text-brand-800 uppercase tracking-wider">Day Plan</h3>
+        <span className="text-xs text-brand-500">
+          {formatTime(dayStart)} – {formatTime(dayEnd)} · {formatDuration(dayEnd - dayStart)}
+        </span>
+      </div>
+      <div className="relative h-8 bg-brand-50 rounded-lg overflow-hidden">
+        {timeline.map((stop, idx) => (
+          <div
+            key={stop.placeId}
+            title={`${idx + 1}. ${places[idx]?.name} · ${formatTime(stop.start)} – ${formatTime(stop.end)}`}
+            className={`absolute top-1 bottom-1 rounded flex items-center justify-center text-[11px] font-bold text-white border border-white ${
+              stop.overlaps ? 'bg-red-500' : 'bg-brand-700'
+            }`}
+            style={{ left: `${((stop.start - dayStart) / span) * 100}%`, width: `${((stop.end - stop.start) / span) * 100}%` }}
+          >
+            {idx + 1}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-brand-400 mt-1">
+        <span>{formatTime(dayStart)}</span>
+        <span>{formatTime(dayEnd)}</span>
+      </div>
+      {route.distanceKm > 0 && (
+        <p className="text-xs text-brand-500 mt-2">
+          Includes {formatDuration(route.walkingMinutes)} of walking ({formatDistance(route.distanceKm)}).
+        </p>
+      )}
+      {timeline.some(s => s.overlaps) && (
+        <p className="text-xs text-red-600 mt-2">Some stops start before the previous one ends.</p>
+      )}
+    </div>
+  );
+};
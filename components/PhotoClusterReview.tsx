@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { PhotoImage } from './PhotoImage';
+import { PhotoCluster, toPhotoCluster } from '../services/photoClustering';
+
+type PhotoClusterReviewProps = {
+  clusters: PhotoCluster[];
+  onConfirm: (clusters: PhotoCluster[]) => void;
+  onCancel: () => void;
+};
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const describeCluster = (cluster: PhotoCluster) => {
+  const times = cluster.photos.flatMap(p => (p.takenAt === undefined ? [] : [p.takenAt]));
+  const parts = [`${cluster.photos.length} photo${cluster.photos.length === 1 ? '' : 's'}`];
+  if (times.length > 0) {
+    const first = formatClock(Math.min(...times));
+    const last = formatClock(Math.max(...times));
+    parts.push(first === last ? first : `${first} – ${last}`);
+  }
+  parts.push(cluster.center ? 'located' : 'no location, identified from the photo');
+  return parts.join(' · ');
+};
+
+// Lets the user fix the grouping before one place per group is identified and added
+export const PhotoClusterReview: React.FC<PhotoClusterReviewProps> = ({ clusters: initialClusters, onConfirm, onCancel }) => {
+  const [clusters, setClusters] = useState(initialClusters);
+
+  const mergeWithPrevious = (index: number) =>
+    setClusters(prev => [
+      ...prev.slice(0, index - 1),
+      toPhotoCluster([...prev[index - 1].photos, ...prev[index].photos]),
+      ...prev.slice(index + 1)
+    ]);
+
+  const splitAt = (index: number, photoIndex: number) =>
+    setClusters(prev => [
+      ...prev.slice(0, index),
+      toPhotoCluster(prev[index].photos.slice(0, photoIndex)),
+      toPhotoCluster(prev[index].photos.slice(photoIndex)),
+      ...prev.slice(index + 1)
+    ]);
+
+  const removePhoto = (index: number, photoId: string) =>
+    setClusters(prev => prev.flatMap((cluster, i) => {
+      if (i !== index) return [cluster];
+      const photos = cluster.photos.filter(p => p.id !== photoId);
+      return photos.length > 0 ? [toPhotoCluster(photos)] : [];
+    }));
+
+  const removeCluster = (index: number) => setClusters(prev => prev.filter((_, i) => i !== index));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-brand-100">
+          <h2 className="font-serif text-2xl text-brand-900">Review your photos</h2>
+          <p className="text-sm text-brand-500">
+            We grouped the photos by where and when they were taken. Each group becomes one place in the guide.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {clusters.map((cluster, index) => (
+            <div key={cluster.id} className="border border-brand-200 rounded-xl p-3">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div>
+                  <h3 className="font-bold text-brand-800">Place {index + 1}</h3>
+                  <p className="text-xs text-brand-500">{describeCluster(cluster)}</p>
+                </div>
+                <div className="flex gap-3 text-xs font-bold text-brand-700">
+                  {index > 0 && (
+                    <button onClick={() => mergeWithPrevious(index)} className="hover:underline">Merge with previous</button>
+                  )}
+                  <button onClick={() => removeCluster(index)} className="text-red-600 hover:underline">Skip</button>
+                </div>
+              </div>
+              <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+                {cluster.photos.map((photo, photoIndex) => (
+                  <div key={photo.id} className="relative group aspect-square rounded-lg overflow-hidden bg-brand-100">
+                    <PhotoImage src={photo.thumbnail} alt="" className="w-full h-full object-cover" />
+                    <div className="absolute inset-x-0 top-0 flex justify-between p-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {photoIndex > 0 ? (
+                        <button
+                          onClick={() => splitAt(index, photoIndex)}
+                          className="bg-white/90 text-brand-700 rounded px-1 text-[10px] font-bold shadow-sm"
+                          title="Start a new place from this photo"
+                        >
+                          Split
+                        </button>
+                      ) : <span />}
+                      <button
+                        onClick={() => removePhoto(index, photo.id)}
+                        className="bg-white/90 text-red-500 rounded-full w-5 h-5 text-xs shadow-sm"
+                        title="Leave this photo out"
+                      >
+                        &times;
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          {clusters.length === 0 && (
+            <p className="text-center text-brand-400 italic py-8">No photos left to add.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-brand-100 flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(clusters)} disabled={clusters.length === 0}>
+            Add {clusters.length} place{clusters.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
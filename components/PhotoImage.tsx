@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { isStoredPhotoUrl, loadImageBlob } from '../services/guideRepository';
+
+type PhotoImageProps = {
+  // A web or data URL, a stored photo ("photo:<id>"), or a photo that isn't saved yet
+  src?: string | Blob;
+  rendition?: 'web' | 'thumbnail';
+  alt: string;
+  className?: string;
+};
+
+// Stored photos get one object URL per rendition for the whole session, shared by every image showing them
+const storedPhotoUrls = new Map<string, Promise<string | undefined>>();
+
+const resolveStoredPhoto = (url: string, rendition: 'web' | 'thumbnail'): Promise<string | undefined> => {
+  const key = `${url}#${rendition}`;
+  let resolved = storedPhotoUrls.get(key);
+  if (!resolved) {
+    resolved = loadImageBlob(url, rendition).then(blob => (blob ? URL.createObjectURL(blob) : undefined));
+    // Allow a later render to retry if reading failed
+    resolved.catch(() => storedPhotoUrls.delete(key));
+    storedPhotoUrls.set(key, resolved);
+  }
+  return resolved;
+};
+
+const directUrlOf = (src?: string | Blob) => (typeof src === 'string' && !isStoredPhotoUrl(src) ? src : undefined);
+
+// An <img> for any image the app deals with; shows a blank tile until a stored photo is read
+export const PhotoImage: React.FC<PhotoImageProps> = ({ src, rendition = 'web', alt, className = '' }: PhotoImageProps) => {
+  const [url, setUrl] = useState(directUrlOf(src));
+
+  useEffect(() => {
+    if (src instanceof Blob) {
+      const objectUrl = URL.createObjectURL(src);
+      setUrl(objectUrl);
+      return () => URL.revokeObjectURL(objectUrl);
+    }
+    if (!src || !isStoredPhotoUrl(src)) {
+      setUrl(src);
+      return;
+    }
+
+    let cancelled = false;
+    setUrl(undefined);
+    resolveStoredPhoto(src, rendition).then(
+      resolved => { if (!cancelled) setUrl(resolved); },
+      error => console.error("Could not load stored photo", error)
+    );
+    return () => { cancelled = true; };
+  }, [src, rendition]);
+
+  if (!url) return <span className={`block bg-brand-100 ${className}`} />;
+  return <img src={url} alt={alt} className={className} />;
+};
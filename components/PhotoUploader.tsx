@@ -1,19 +1,9 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import heic2any from 'heic2any';
-import ExifReader from 'exifreader';
-
-export type ProcessedPhoto = {
-  id: string;
-  dataUri: string;
-  gps?: {
-    latitude: number;
-    longitude: number;
-  };
-  mimeType: string;
-};
+import React, { useState, useEffect } from 'react';
+import { processPhotoFile, ProcessedPhoto } from '../services/photoProcessor';
 
 type PhotoUploaderProps = {
-  onPhotoProcessed: (photo: ProcessedPhoto) => void;
+  // Called once per selection, with every photo that could be read
+  onPhotosProcessed: (photos: ProcessedPhoto[]) => void;
 };
 
 type PreviewState = {
@@ -25,7 +15,7 @@ type PreviewState = {
   hasGps?: boolean;
 };
 
-export const PhotoUploader: React.FC<PhotoUploaderProps> = ({ onPhotoProcessed }) => {
+export const PhotoUploader: React.FC<PhotoUploaderProps> = ({ onPhotosProcessed }) => {
   const [previews, setPreviews] = useState<PreviewState[]>([]);
 
   useEffect(() => {
@@ -36,95 +26,6 @@ export const PhotoUploader: React.FC<PhotoUploaderProps> = ({ onPhotoProcessed }
     };
   }, []);
 
-  const fileToDataUri = (file: Blob): Promise<string> =>
-    new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-
-  // Helper: Convert EXIF Rational (DMS) to Decimal Degrees
-  const extractGpsFromTags = (tags: any): { latitude: number; longitude: number } | undefined => {
-    try {
-      if (!tags || !tags['GPSLatitude'] || !tags['GPSLongitude']) return undefined;
-
-      const latData = tags['GPSLatitude'].value;
-      const lonData = tags['GPSLongitude'].value;
-      const latRef = tags['GPSLatitudeRef']?.value?.[0] || tags['GPSLatitudeRef']?.description?.[0];
-      const lonRef = tags['GPSLongitudeRef']?.value?.[0] || tags['GPSLongitudeRef']?.description?.[0];
-
-      // Helper to convert rational [numerator, denominator] to number
-      const toNum = (val: any) => {
-        if (Array.isArray(val) && val.length === 2 && val[1] !== 0) {
-          return val[0] / val[1];
-        }
-        return Number(val);
-      };
-
-      // Ensure we have at least 3 components (Degrees, Minutes, Seconds)
-      if (latData.length < 3 || lonData.length < 3) return undefined;
-
-      const latDeg = toNum(latData[0]);
-      const latMin = toNum(latData[1]);
-      const latSec = toNum(latData[2]);
-
-      const lonDeg = toNum(lonData[0]);
-      const lonMin = toNum(lonData[1]);
-      const lonSec = toNum(lonData[2]);
-
-      let latitude = latDeg + latMin / 60.0 + latSec / 3600.0;
-      let longitude = lonDeg + lonMin / 60.0 + lonSec / 3600.0;
-
-      // Apply Reference (South or West is negative)
-      if (latRef === 'S' || latRef === 's') latitude = -latitude;
-      if (lonRef === 'W' || lonRef === 'w') longitude = -longitude;
-
-      if (isNaN(latitude) || isNaN(longitude)) return undefined;
-
-      return { latitude, longitude };
-    } catch (error) {
-      console.warn("GPS parsing logic error:", error);
-      return undefined;
-    }
-  };
-
-  const processFile = useCallback(async (file: File): Promise<ProcessedPhoto> => {
-    let processedBlob: Blob = file;
-    let mimeType = file.type;
-
-    // 1. Try to read EXIF from the original file (best for HEIC/JPEG)
-    let gps: { latitude: number; longitude: number } | undefined;
-    try {
-      const tags = await ExifReader.load(file);
-      gps = extractGpsFromTags(tags);
-    } catch (e) {
-      console.warn('Could not read EXIF data from original file', e);
-    }
-
-    // 2. Convert HEIC if necessary
-    if (file.type.toLowerCase() === 'image/heic' || file.name.toLowerCase().endsWith('.heic')) {
-      try {
-        const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.8 });
-        processedBlob = Array.isArray(result) ? result[0] : result;
-        mimeType = 'image/jpeg';
-      } catch (e) {
-        console.error("HEIC conversion failed", e);
-        throw new Error("Could not convert HEIC image. Please try a JPG or PNG.");
-      }
-    }
-
-    // 3. Convert to Data URI for the AI
-    const dataUri = await fileToDataUri(processedBlob);
-
-    return {
-      id: `${file.name}-${Date.now()}`,
-      dataUri,
-      gps,
-      mimeType
-    };
-  }, []);
-
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (!event.target.files) return;
     const newFiles = Array.from(event.target.files) as File[];
@@ -136,21 +37,17 @@ export const PhotoUploader: React.FC<PhotoUploaderProps> = ({ onPhotoProcessed }
     }));
 
     setPreviews(prev => [...prev, ...newPreviewPlaceholders]);
+    const processed: ProcessedPhoto[] = [];
 
     for (const file of newFiles) {
       const placeholder = newPreviewPlaceholders.find(p => p.fileName === file.name);
       if(!placeholder) continue;
 
       try {
-        const processedPhoto = await processFile(file);
-        
-        // Notify parent
-        onPhotoProcessed(processedPhoto);
-        
-        // Create preview blob url
-        const response = await fetch(processedPhoto.dataUri);
-        const blob = await response.blob();
-        const previewUrl = URL.createObjectURL(blob);
+        const processedPhoto = await processPhotoFile(file);
+        processed.push(processedPhoto);
+
+        const previewUrl = URL.createObjectURL(processedPhoto.thumbnail);
 
         setPreviews(current => current.map(p =>
           p.id === placeholder.id
@@ -166,6 +63,9 @@ export const PhotoUploader: React.FC<PhotoUploaderProps> = ({ onPhotoProcessed }
         ));
       }
     }
+    // Notify parent
+    if (processed.length > 0) onPhotosProcessed(processed);
+
     // Reset input
     event.target.value = '';
   };
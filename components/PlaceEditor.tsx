@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './Button';
+import { PhotoImage } from './PhotoImage';
+import { processPhotoFile } from '../services/photoProcessor';
+import { savePhoto } from '../services/guideRepository';
+import { DEFAULT_VISIT_MINUTES } from '../services/itinerary';
+import { Coordinates, Place } from '../types';
+
+type PlaceEditorProps = {
+  guideId: string; // owner of uploaded photos
+  place: Place;
+  isPickingOnMap: boolean;
+  // Edits apply as you type, like the guide title
+  onChange: (patch: Partial<Place>) => void;
+  onTogglePickOnMap: () => void;
+  onClose: () => void;
+};
+
+const formatCoordinate = (value?: number) => (value === undefined ? '' : value.toFixed(6));
+
+const parseCoordinates = (lat: string, lng: string): Coordinates | undefined | null => {
+  if (!lat.trim() && !lng.trim()) return undefined;
+  const latitude = Number(lat);
+  const longitude = Number(lng);
+  if (!lat.trim() || !lng.trim() || isNaN(latitude) || isNaN(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+const inputClass = "w-full bg-brand-50 border border-brand-200 focus:border-brand-400 focus:bg-white focus:ring-0 rounded-lg px-3 py-2 text-sm text-brand-900";
+const labelClass = "block text-xs font-bold uppercase tracking-wider text-brand-500 mb-1";
+
+export const PlaceEditor: React.FC<PlaceEditorProps> = ({ guideId, place, isPickingOnMap, onChange, onTogglePickOnMap, onClose }) => {
+  const [lat, setLat] = useState(formatCoordinate(place.coordinates?.latitude));
+  const [lng, setLng] = useState(formatCoordinate(place.coordinates?.longitude));
+  const [photoState, setPhotoState] = useState<{ status: 'idle' | 'processing' | 'error'; message?: string }>({ status: 'idle' });
+
+  // Follow coordinates set from the map (drag or click)
+  useEffect(() => {
+    setLat(formatCoordinate(place.coordinates?.latitude));
+    setLng(formatCoordinate(place.coordinates?.longitude));
+  }, [place.coordinates]);
+
+  const commitCoordinates = () => {
+    const coordinates = parseCoordinates(lat, lng);
+    if (coordinates === null) {
+      // Not a valid point; go back to what the place has
+      setLat(formatCoordinate(place.coordinates?.latitude));
+      setLng(formatCoordinate(place.coordinates?.longitude));
+      return;
+    }
+    onChange({ coordinates });
+  };
+
+  const handlePhotoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setPhotoState({ status: 'processing' });
+    try {
+      const photo = await processPhotoFile(file);
+      const imageUrl = await savePhoto(photo, guideId);
+      // A located photo places the stop, unless it already has a position
+      onChange({
+        imageUrl,
+        gallery: place.gallery && [...place.gallery, imageUrl],
+        ...(photo.gps && !place.coordinates ? { coordinates: photo.gps } : {})
+      });
+      setPhotoState({ status: 'idle' });
+    } catch (e: any) {
+      console.error("Photo swap failed", e);
+      setPhotoState({ status: 'error', message: e.message || 'Could not read that photo.' });
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border-2 border-brand-300 space-y-3">
+      <div className="flex gap-4">
+        <div className="w-24 flex-shrink-0 space-y-2">
+          {place.imageUrl ? (
+            <PhotoImage src={place.imageUrl} rendition="thumbnail" alt={place.name} className="w-24 h-24 rounded-lg object-cover" />
+          ) : (
+            <div className="w-24 h-24 rounded-lg bg-brand-100" />
+          )}
+          <label className="block text-center text-xs font-bold text-brand-700 cursor-pointer hover:underline">
+            {photoState.status === 'processing' ? 'Processing...' : 'Change photo'}
+            <input
+              type="file"
+              className="hidden"
+              accept="image/png, image/jpeg, image/webp, image/heic, .heic"
+              onChange={handlePhotoChange}
+              disabled={photoState.status === 'processing'}
+            />
+          </label>
+        </div>
+        <div className="flex-1 space-y-3">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input className={inputClass} value={place.name} onChange={(e) => onChange({ name: e.target.value })} />
+          </div>
+          <div>
+            <label className={labelClass}>Address</label>
+            <input className={inputClass} value={place.address || ''} onChange={(e) => onChange({ address: e.target.value || undefined })} />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Description</label>
+        <textarea className={inputClass} rows={3} value={place.description} onChange={(e) => onChange({ description: e.target.value })} />
+      </div>
+
+      <div className="flex gap-3">
+        <div className="flex-1">
+          <label className={labelClass}>Start time</label>
+          <input
+            type="time"
+            className={inputClass}
+            value={place.startTime || ''}
+            onChange={(e) => onChange({ startTime: e.target.value || undefined })}
+          />
+        </div>
+        <div className="flex-1">
+          <label className={labelClass}>Duration (min)</label>
+          <input
+            type="number"
+            min={5}
+            step={5}
+            className={inputClass}
+            placeholder={String(DEFAULT_VISIT_MINUTES)}
+            value={place.durationMinutes ?? ''}
+            onChange={(e) => {
+              const minutes = Number(e.target.value);
+              onChange({ durationMinutes: e.target.value && minutes > 0 ? minutes : undefined });
+            }}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-brand-400 -mt-2">Leave the start time empty to follow on from the previous stop.</p>
+
+      <div>
+        <label className={labelClass}>Location</label>
+        <div className="flex items-center gap-2">
+          <input
+            className={inputClass}
+            placeholder="Latitude"
+            value={lat}
+            onChange={(e) => setLat(e.target.value)}
+            onBlur={commitCoordinates}
+            onKeyDown={(e) => e.key === 'Enter' && commitCoordinates()}
+          />
+          <input
+            className={inputClass}
+            placeholder="Longitude"
+            value={lng}
+            onChange={(e) => setLng(e.target.value)}
+            onBlur={commitCoordinates}
+            onKeyDown={(e) => e.key === 'Enter' && commitCoordinates()}
+          />
+          <Button variant={isPickingOnMap ? 'primary' : 'outline'} size="sm" onClick={onTogglePickOnMap} className="whitespace-nowrap">
+            {isPickingOnMap ? 'Click the map...' : 'Set on map'}
+          </Button>
+        </div>
+        <p className="text-xs text-brand-400 mt-1">
+          {place.coordinates ? 'Drag the marker on the map to fine-tune.' : 'Not on the map yet.'}
+        </p>
+        <label className="flex items-center gap-2 mt-2 text-sm text-brand-700">
+          <input type="checkbox" checked={!!place.approximate} onChange={(e) => onChange({ approximate: e.target.checked || undefined })} />
+          Approximate location
+        </label>
+        <p className="text-xs text-brand-400">For private places, like a home: published about a kilometre off and without the address.</p>
+      </div>
+
+      {photoState.status === 'error' && <p className="text-sm text-red-600">{photoState.message}</p>}
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={onClose}>Done</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { Button } from './Button';
+import { processPhotoFile } from '../services/photoProcessor';
+import { blobToDataUri } from '../services/utils';
+
+interface ProfileEditorProps {
+  user: User;
+  onSave: (user: User) => Promise<void>;
+  onClose: () => void;
+}
+
+export const ProfileEditor: React.FC<ProfileEditorProps> = ({ user, onSave, onClose }) => {
+  const [profile, setProfile] = useState<User>(user);
+  const [state, setState] = useState<{ status: 'idle' | 'busy' | 'error'; message?: string }>({ status: 'idle' });
+
+  const update = <K extends keyof User>(key: K, value: User[K]) => setProfile(prev => ({ ...prev, [key]: value }));
+
+  // The small rendition is plenty for an avatar, and re-encoding it drops the photo's metadata
+  const uploadAvatar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setState({ status: 'busy' });
+    try {
+      const photo = await processPhotoFile(file);
+      update('avatar', await blobToDataUri(photo.thumbnail));
+      setState({ status: 'idle' });
+    } catch (err: any) {
+      setState({ status: 'error', message: err.message || 'Could not read that photo.' });
+    }
+  };
+
+  const handleSave = async () => {
+    setState({ status: 'busy' });
+    try {
+      await onSave(profile);
+    } catch (err: any) {
+      setState({ status: 'error', message: err.message || 'Could not save your profile.' });
+    }
+  };
+
+  const inputClass = "w-full bg-brand-50 border border-brand-200 focus:border-brand-400 focus:ring-0 rounded-lg px-3 py-2 text-brand-900 text-sm";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="w-full max-w-md bg-white rounded-xl shadow-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="font-serif text-2xl text-brand-900">Edit Profile</h2>
+          <button onClick={onClose} className="text-brand-400 hover:text-brand-700">&times;</button>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <img src={profile.avatar} alt="" className="w-16 h-16 rounded-full object-cover border border-brand-200" />
+          <label className="text-sm font-bold text-brand-700 hover:underline cursor-pointer">
+            Upload a photo
+            <input type="file" accept="image/*,.heic" className="hidden" onChange={uploadAvatar} />
+          </label>
+        </div>
+        <label className="block text-xs font-bold text-brand-600 space-y-1">
+          <span>Name</span>
+          <input className={inputClass} value={profile.name} onChange={(e) => update('name', e.target.value)} />
+        </label>
+        <label className="block text-xs font-bold text-brand-600 space-y-1">
+          <span>Home city</span>
+          <input className={inputClass} placeholder="Lisbon" value={profile.homeCity || ''} onChange={(e) => update('homeCity', e.target.value || undefined)} />
+        </label>
+        <label className="block text-xs font-bold text-brand-600 space-y-1">
+          <span>Bio</span>
+          <textarea className={inputClass} rows={3} placeholder="What makes your guides yours?" value={profile.bio || ''} onChange={(e) => update('bio', e.target.value || undefined)} />
+        </label>
+
+        {state.status === 'error' && <p className="text-sm text-red-600">{state.message}</p>}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} isLoading={state.status === 'busy'}>Save</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { WordPressConfig } from '../types';
+import { Button } from './Button';
+import { DEFAULT_WORDPRESS_CONFIG, testWordPressConnection } from '../services/wordpressPublisher';
+
+interface PublishSettingsProps {
+  initialConfig: WordPressConfig | null;
+  onSave: (config: WordPressConfig) => void;
+  onClose: () => void;
+}
+
+export const PublishSettings: React.FC<PublishSettingsProps> = ({ initialConfig, onSave, onClose }) => {
+  const [config, setConfig] = useState<WordPressConfig>(initialConfig || DEFAULT_WORDPRESS_CONFIG);
+  const [testState, setTestState] = useState<{ status: 'idle' | 'testing' | 'ok' | 'error'; message?: string }>({ status: 'idle' });
+
+  const update = <K extends keyof WordPressConfig>(key: K, value: WordPressConfig[K]) => {
+    setConfig(prev => ({ ...prev, [key]: value }));
+    setTestState({ status: 'idle' });
+  };
+
+  const handleTest = async () => {
+    setTestState({ status: 'testing' });
+    try {
+      const name = await testWordPressConnection(config);
+      setTestState({ status: 'ok', message: `Connected as ${name}.` });
+    } catch (e: any) {
+      setTestState({ status: 'error', message: e.message || 'Connection failed.' });
+    }
+  };
+
+  const inputClass = "w-full bg-brand-50 border border-brand-200 focus:border-brand-400 focus:ring-0 rounded-lg px-3 py-2 text-brand-900 text-sm";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="w-full max-w-md bg-white rounded-xl shadow-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="font-serif text-2xl text-brand-900">WordPress Publishing</h2>
+          <button onClick={onClose} className="text-brand-400 hover:text-brand-700">&times;</button>
+        </div>
+
+        <label className="block text-xs font-bold text-brand-600 space-y-1">
+          <span>Site URL</span>
+          <input className={inputClass} placeholder="https://example.com" value={config.siteUrl} onChange={(e) => update('siteUrl', e.target.value)} />
+        </label>
+        <label className="block text-xs font-bold text-brand-600 space-y-1">
+          <span>Username</span>
+          <input className={inputClass} value={config.username} onChange={(e) => update('username', e.target.value)} />
+        </label>
+        <label className="block text-xs font-bold text-brand-600 space-y-1">
+          <span>Application password</span>
+          <input className={inputClass} type="password" placeholder="xxxx xxxx xxxx xxxx xxxx xxxx" value={config.applicationPassword} onChange={(e) => update('applicationPassword', e.target.value)} />
+          <span className="block font-normal text-brand-400">Create one under Users &rarr; Profile &rarr; Application Passwords.</span>
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-xs font-bold text-brand-600 space-y-1">
+            <span>Publish as</span>
+            <select className={inputClass} value={config.postType} onChange={(e) => update('postType', e.target.value as WordPressConfig['postType'])}>
+              <option value="posts">Blog post</option>
+              <option value="web-story">Web Story</option>
+            </select>
+          </label>
+          <label className="block text-xs font-bold text-brand-600 space-y-1">
+            <span>Post status</span>
+            <select className={inputClass} value={config.postStatus} onChange={(e) => update('postStatus', e.target.value as WordPressConfig['postStatus'])}>
+              <option value="publish">Published</option>
+              <option value="draft">WordPress draft</option>
+            </select>
+          </label>
+        </div>
+
+        {testState.message && (
+          <p className={`text-sm ${testState.status === 'ok' ? 'text-green-700' : 'text-red-600'}`}>{testState.message}</p>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={handleTest} isLoading={testState.status === 'testing'}>
+            Test connection
+          </Button>
+          <Button onClick={() => onSave(config)}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
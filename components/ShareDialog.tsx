@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { qrCodeSvg } from '../services/qrCode';
+
+interface ShareDialogProps {
+  title: string;
+  url: string;
+  // Where the guide is published, if it is
+  publishedUrl?: string;
+  onClose: () => void;
+}
+
+export const ShareDialog: React.FC<ShareDialogProps> = ({ title, url, publishedUrl, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const qrCode = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrCodeSvg(url))}`;
+  const canShare = typeof navigator.share === 'function';
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (e) {
+      console.error("Could not copy the link", e);
+    }
+  };
+
+  const shareLink = () =>
+    navigator.share({ title, url }).catch(e => {
+      // Dismissing the share sheet is not an error
+      if (e?.name !== 'AbortError') console.error("Could not share the link", e);
+    });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-sm bg-white rounded-xl shadow-2xl p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="font-serif text-2xl text-brand-900">Share Guide</h2>
+          <button onClick={onClose} className="text-brand-400 hover:text-brand-700">&times;</button>
+        </div>
+
+        <img src={qrCode} alt={`QR code for ${url}`} className="w-48 h-48 mx-auto" />
+        <a href={qrCode} download="guide-qr-code.svg" className="block text-center text-xs font-bold text-brand-600 hover:underline">
+          Download QR code
+        </a>
+
+        <div className="flex gap-2">
+          <input
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 bg-brand-50 border border-brand-200 rounded-lg px-3 py-2 text-brand-900 text-sm"
+          />
+          <Button variant="outline" onClick={copyLink}>{copied ? 'Copied' : 'Copy'}</Button>
+        </div>
+        {canShare && <Button className="w-full" onClick={shareLink}>Share...</Button>}
+
+        {publishedUrl && (
+          <p className="text-xs text-brand-500">
+            Also published at <a href={publishedUrl} target="_blank" rel="noopener noreferrer" className="text-brand-700 underline break-all">{publishedUrl}</a>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
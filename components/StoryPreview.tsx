@@ -1,37 +1,71 @@
 
 import React, { useState } from 'react';
-import { Guide } from '../types';
+import { Guide, StaticMapLayout } from '../types';
+import { PhotoImage } from './PhotoImage';
+import { buildStoryPages } from '../services/storyPages';
+import { applyLocationPrivacy } from '../services/privacy';
+import { formatRating, ratingTooltip } from '../services/placeGrounding';
+import { guideLanguage, guideLanguages, languageLabel, localizeGuide } from '../services/translations';
 
 interface StoryPreviewProps {
   guide: Guide;
   onClose: () => void;
+  // Makes the page controlled, e.g. by the URL; otherwise the story keeps its own
+  pageIndex?: number;
+  onPageChange?: (index: number) => void;
 }
 
-export const StoryPreview: React.FC<StoryPreviewProps> = ({ guide, onClose }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+const StoryMap = ({ map }: { map: StaticMapLayout }) => (
+  <>
+    {map.tiles.map((t, idx) => (
+      <img 
+        key={idx}
+        src={t.url}
+        alt=""
+        className="absolute max-w-none"
+        style={{ left: `${t.left}%`, top: `${t.top}%`, width: `${t.width}%`, height: `${t.height}%` }}
+      />
+    ))}
+    {map.markers.map((m, idx) => (
+      <div 
+        key={idx}
+        className="absolute w-7 h-7 -ml-3.5 -mt-3.5 bg-brand-700 rounded-full border-2 border-white shadow-lg flex items-center justify-center text-white text-xs font-bold"
+        style={{ left: `${m.left}%`, top: `${m.top}%` }}
+      >
+        {m.label}
+      </div>
+    ))}
+  </>
+);
+
+export const StoryPreview: React.FC<StoryPreviewProps> = ({ guide, onClose, pageIndex, onPageChange }) => {
+  const [ownIndex, setOwnIndex] = useState(0);
+  const [language, setLanguage] = useState(guideLanguage(guide));
+  const languages = guideLanguages(guide);
 
-  // Construct pages from guide data
-  const pages = [
-    { type: 'cover', data: guide },
-    ...guide.places.map(p => ({ type: 'place', data: p })),
-    { type: 'end', data: guide }
-  ];
+  // Same page model and privacy pass as the AMP export, so the preview matches what gets published
+  const pages = buildStoryPages(applyLocationPrivacy(localizeGuide(guide, language)));
+  const currentIndex = Math.min(Math.max(pageIndex ?? ownIndex, 0), pages.length - 1);
+  const goTo = (index: number) => (onPageChange ? onPageChange(index) : setOwnIndex(index));
 
   const handleNext = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (currentIndex < pages.length - 1) setCurrentIndex(prev => prev + 1);
+    if (currentIndex < pages.length - 1) goTo(currentIndex + 1);
   };
 
   const handlePrev = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (currentIndex > 0) setCurrentIndex(prev => prev - 1);
+    if (currentIndex > 0) goTo(currentIndex - 1);
   };
 
   const currentPage = pages[currentIndex];
+  // Stops are numbered within their day
+  const dayStart = pages.slice(0, currentIndex + 1).map(p => p.type).lastIndexOf('day');
+  const stopNumber = pages.slice(dayStart + 1, currentIndex + 1).filter(p => p.type === 'place').length;
 
   return (
     <div className="fixed inset-0 z-50 bg-black bg-opacity-90 flex items-center justify-center p-4 backdrop-blur-sm">
-      <div className="relative w-full max-w-md h-[80vh] bg-black rounded-xl overflow-hidden shadow-2xl border border-gray-800">
+      <div className="relative h-[80vh] max-w-full aspect-[9/16] bg-black rounded-xl overflow-hidden shadow-2xl border border-gray-800">
         
         {/* Progress Bar */}
         <div className="absolute top-4 left-0 right-0 flex gap-1 px-2 z-20">
@@ -51,68 +85,107 @@ export const StoryPreview: React.FC<StoryPreviewProps> = ({ guide, onClose }) =>
           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
         </button>
 
+        {/* Language Switcher, every language has the same pages */}
+        {languages.length > 1 && (
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            className="absolute top-9 left-2 z-30 bg-black/40 text-white text-xs rounded border border-white/30 px-1 py-0.5"
+          >
+            {languages.map(code => <option key={code} value={code}>{languageLabel(code)}</option>)}
+          </select>
+        )}
+
         {/* Content Layer */}
-        <div className="absolute inset-0 z-10" onClick={handleNext}>
+        <div className="absolute inset-0 z-10" lang={language} onClick={handleNext}>
            {/* Left Tap Zone */}
            <div className="absolute left-0 top-0 bottom-0 w-1/3 z-20" onClick={handlePrev} />
            
            {currentPage.type === 'cover' && (
              <div className="h-full w-full relative">
-                <img 
-                  src={(currentPage.data as Guide).coverImage} 
-                  alt="Cover" 
-                  className="absolute inset-0 w-full h-full object-cover"
-                />
+                {currentPage.mediaUrl && (
+                  <PhotoImage
+                    src={currentPage.mediaUrl}
+                    alt="Cover"
+                    className="absolute inset-0 w-full h-full object-cover"
+                  />
+                )}
                 <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-black/30" />
                 <div className="absolute bottom-12 left-6 right-6 text-white">
                   <span className="text-brand-300 uppercase tracking-widest text-xs font-bold mb-2 block">City Guide</span>
-                  <h1 className="font-serif text-4xl mb-4 leading-tight">{(currentPage.data as Guide).title}</h1>
+                  <h1 className="font-serif text-4xl mb-4 leading-tight">{currentPage.title}</h1>
                   <div className="flex items-center gap-3">
                     <div className="w-8 h-8 rounded-full bg-brand-500 flex items-center justify-center text-xs font-bold">
-                       {(currentPage.data as Guide).author.name[0]}
+                       {currentPage.text?.[0]}
                     </div>
-                    <span className="text-sm font-sans">by {(currentPage.data as Guide).author.name}</span>
+                    <span className="text-sm font-sans">by {currentPage.text}</span>
                   </div>
                 </div>
              </div>
            )}
 
+           {currentPage.type === 'map' && currentPage.map && (
+             <div className="h-full w-full relative bg-brand-200 overflow-hidden">
+                <StoryMap map={currentPage.map} />
+                <div className="absolute top-12 left-6 right-6 text-brand-900">
+                  <span className="text-brand-700 uppercase tracking-widest text-xs font-bold mb-2 block">{currentPage.text}</span>
+                  <h2 className="font-serif text-3xl">{currentPage.title}</h2>
+                </div>
+             </div>
+           )}
+
+           {currentPage.type === 'day' && (
+             <div className={`h-full w-full relative overflow-hidden ${currentPage.map ? 'bg-brand-200' : 'bg-brand-900 flex items-center'}`}>
+                {currentPage.map && <StoryMap map={currentPage.map} />}
+                <div className={`${currentPage.map ? 'absolute top-12 left-6 right-6 text-brand-900' : 'p-6 text-white'}`}>
+                  <span className={`${currentPage.map ? 'text-brand-700' : 'text-brand-300'} uppercase tracking-widest text-xs font-bold mb-2 block`}>{currentPage.dayLabel}</span>
+                  <h2 className="font-serif text-3xl mb-2">{currentPage.title}</h2>
+                  {currentPage.text && <p className="font-sans text-sm leading-relaxed">{currentPage.text}</p>}
+                </div>
+             </div>
+           )}
+
            {currentPage.type === 'place' && (
              <div className="h-full w-full relative bg-brand-900">
                 <div className="h-3/5 relative group">
-                   <img 
-                    src={(currentPage.data as any).imageUrl} 
-                    alt="Place" 
-                    className="w-full h-full object-cover"
-                   />
-                   <div className="absolute inset-0 bg-gradient-to-b from-black/50 to-transparent" />
-                   
-                   {/* Mini Map Overlay if Coordinates exist */}
-                   {(currentPage.data as any).coordinates && (
-                       <div className="absolute bottom-4 right-4 w-24 h-24 rounded-lg overflow-hidden border-2 border-white shadow-lg bg-gray-200">
-                           <iframe
-                               width="100%"
-                               height="100%"
-                               frameBorder="0"
-                               style={{border:0}}
-                               src={`https://maps.google.com/maps?q=${(currentPage.data as any).coordinates.latitude},${(currentPage.data as any).coordinates.longitude}&z=15&output=embed`}
-                               allowFullScreen
-                           ></iframe>
-                       </div>
+                   {currentPage.mediaUrl && (
+                     <PhotoImage
+                      src={currentPage.mediaUrl}
+                      alt="Place"
+                      className="w-full h-full object-cover"
+                     />
                    )}
+                   <div className="absolute inset-0 bg-gradient-to-b from-black/50 to-transparent" />
                 </div>
                 <div className="h-2/5 p-6 text-white bg-brand-900 relative">
                    <div className="absolute -top-16 right-6 w-12 h-12 bg-white rounded-full flex items-center justify-center shadow-lg text-brand-900">
                       <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                    </div>
-                   <h2 className="font-serif text-2xl mb-2">{(currentPage.data as any).name}</h2>
+                   <span className="text-brand-300 uppercase tracking-widest text-xs font-bold mb-2 block">Stop {stopNumber}{currentPage.time && ` · ${currentPage.time}`}</span>
+                   <h2 className="font-serif text-2xl mb-2">{currentPage.title}</h2>
                    <p className="font-sans text-brand-100 text-sm leading-relaxed mb-4">
-                     {(currentPage.data as any).description}
+                     {currentPage.text}
                    </p>
-                   {(currentPage.data as any).address && (
+                   {currentPage.placeData?.address && (
                      <div className="text-xs text-brand-300 flex items-start gap-2">
                        <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
-                       {(currentPage.data as any).address}
+                       {currentPage.placeData.address}
+                     </div>
+                   )}
+                   {(currentPage.placeData?.rating !== undefined || currentPage.placeData?.mapsUri) && (
+                     <div className="relative z-30 flex items-center gap-3 mt-2 text-xs text-brand-300">
+                       {currentPage.placeData.rating !== undefined && <span className="font-bold text-white" title={ratingTooltip(currentPage.placeData)}>{formatRating(currentPage.placeData)}</span>}
+                       {currentPage.placeData.mapsUri && (
+                         <a
+                           href={currentPage.placeData.mapsUri}
+                           target="_blank"
+                           rel="noopener noreferrer"
+                           onClick={(e) => e.stopPropagation()}
+                           className="font-bold underline hover:text-white"
+                         >
+                           Open in Maps
+                         </a>
+                       )}
                      </div>
                    )}
                 </div>
@@ -121,8 +194,8 @@ export const StoryPreview: React.FC<StoryPreviewProps> = ({ guide, onClose }) =>
 
            {currentPage.type === 'end' && (
              <div className="h-full w-full relative bg-brand-800 flex flex-col items-center justify-center text-center p-8 text-white">
-                <h2 className="font-serif text-3xl mb-4">The End</h2>
-                <p className="text-brand-200 mb-8">Thanks for exploring with us.</p>
+                <h2 className="font-serif text-3xl mb-4">{currentPage.title}</h2>
+                <p className="text-brand-200 mb-8">{currentPage.text}</p>
                 <div className="animate-bounce">
                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" /></svg>
                 </div>
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { MAX_TAGS, normalizeTags, SUGGESTED_TAGS, tagKey } from '../services/guideTags';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Tag chips with an input; Enter or a comma adds the typed tag
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const suggestions = SUGGESTED_TAGS.filter(s => !tags.some(t => tagKey(t) === tagKey(s)));
+
+  const addTag = (tag: string) => {
+    setDraft('');
+    if (tag.trim()) onChange(normalizeTags([...tags, tag]));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2">
+      {tags.map(tag => (
+        <span key={tag} className="inline-flex items-center gap-1 bg-brand-200 text-brand-800 text-xs font-bold rounded-full pl-2.5 pr-1.5 py-0.5">
+          {tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} className="text-brand-500 hover:text-brand-900" title={`Remove ${tag}`}>&times;</button>
+        </span>
+      ))}
+      {tags.length < MAX_TAGS && (
+        <>
+          <input
+            value={draft}
+            list="guide-tag-suggestions"
+            placeholder={tags.length === 0 ? 'Add tags, like Art & Coffee' : 'Add a tag'}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => addTag(draft)}
+            className="bg-transparent text-xs text-brand-700 placeholder-brand-400 focus:outline-none min-w-[10rem] py-0.5"
+          />
+          <datalist id="guide-tag-suggestions">
+            {suggestions.map(s => <option key={s} value={s} />)}
+          </datalist>
+        </>
+      )}
+    </div>
+  );
+};
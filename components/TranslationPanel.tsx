@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Guide, GuideTranslation } from '../types';
+import { Button } from './Button';
+import { translateGuideText } from '../services/aiClient';
+import { dayHeading } from '../services/guideDays';
+import { guideLanguage, guideText, LANGUAGES, languageLabel, mergeTranslation, outdatedEntries, sourceHashes } from '../services/translations';
+
+interface TranslationPanelProps {
+  guide: Guide;
+  onLanguageChange: (language: string) => void;
+  onTranslationsChange: (update: (translations: GuideTranslation[]) => GuideTranslation[]) => void;
+  onClose: () => void;
+}
+
+// Translates the guide through the AI and lets the author review and fix every entry
+export const TranslationPanel: React.FC<TranslationPanelProps> = ({ guide, onLanguageChange, onTranslationsChange, onClose }) => {
+  const translations = guide.translations || [];
+  const [selected, setSelected] = useState<string | null>(translations[0]?.language || null);
+  const [newLanguage, setNewLanguage] = useState('');
+  const [busyLanguage, setBusyLanguage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sourceLanguage = guideLanguage(guide);
+  const translation = translations.find(t => t.language === selected);
+  const outdated = translation ? outdatedEntries(guide, translation) : [];
+  const available = LANGUAGES.filter(l => l.code !== sourceLanguage && !translations.some(t => t.language === l.code));
+  const isMultiDay = guide.days.length > 1;
+
+  // Everything for a new language, only the outdated entries for an existing one
+  const translate = async (language: string, keys?: string[]) => {
+    setBusyLanguage(language);
+    setError(null);
+    const sent = guide;
+    const result = await translateGuideText(guideText(sent, keys), language);
+    setBusyLanguage(null);
+    if (!result) {
+      setError(`The ${languageLabel(language)} translation failed, please try again.`);
+      return;
+    }
+    onTranslationsChange(prev => {
+      const previous = prev.find(t => t.language === language);
+      const merged = mergeTranslation(sent, language, result, previous);
+      return previous ? prev.map(t => (t === previous ? merged : t)) : [...prev, merged];
+    });
+    setSelected(language);
+  };
+
+  const addLanguage = () => {
+    if (!newLanguage) return;
+    setNewLanguage('');
+    translate(newLanguage);
+  };
+
+  const removeLanguage = (language: string) => {
+    onTranslationsChange(prev => prev.filter(t => t.language !== language));
+    setSelected(translations.find(t => t.language !== language)?.language || null);
+  };
+
+  // A hand edit means the author reviewed the entry against the current original
+  const editEntry = (key: string, patch: (t: GuideTranslation) => Partial<GuideTranslation>) => {
+    const hash = sourceHashes(guide)[key];
+    onTranslationsChange(prev => prev.map(t => (t.language === selected
+      ? { ...t, ...patch(t), sources: { ...t.sources, [key]: hash }, updatedAt: new Date().toISOString() }
+      : t)));
+  };
+
+  const inputClass = "w-full bg-brand-50 border border-brand-200 focus:border-brand-400 focus:ring-0 rounded-lg px-3 py-2 text-brand-900 text-sm";
+  const outdatedBadge = (entry: string) => (outdated.includes(entry)
+    ? <span className="text-[10px] font-bold uppercase text-amber-700 bg-amber-50 rounded px-1.5 py-0.5">Original changed</span>
+    : null);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="w-full max-w-2xl max-h-[85vh] bg-white rounded-xl shadow-2xl flex flex-col">
+        <div className="p-6 pb-4 border-b border-brand-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-serif text-2xl text-brand-900">Translations</h2>
+            <button onClick={onClose} className="text-brand-400 hover:text-brand-700">&times;</button>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs font-bold text-brand-600">
+            <span>Written in</span>
+            <select
+              className="bg-brand-50 border border-brand-200 rounded-lg px-2 py-1 text-brand-900 text-sm"
+              value={sourceLanguage}
+              onChange={(e) => onLanguageChange(e.target.value)}
+            >
+              {LANGUAGES.filter(l => l.code === sourceLanguage || !translations.some(t => t.language === l.code)).map(l => (
+                <option key={l.code} value={l.code}>{l.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {translations.map(t => (
+              <button
+                key={t.language}
+                onClick={() => setSelected(t.language)}
+                className={`px-3 py-1 rounded-full text-sm font-bold border ${t.language === selected ? 'bg-brand-700 text-white border-brand-700' : 'bg-white text-brand-700 border-brand-200 hover:border-brand-400'}`}
+              >
+                {languageLabel(t.language)}
+                {outdatedEntries(guide, t).length > 0 && <span className="ml-1 text-amber-400">&bull;</span>}
+              </button>
+            ))}
+            <select
+              className="bg-brand-50 border border-brand-200 rounded-lg px-2 py-1 text-brand-900 text-sm"
+              value={newLanguage}
+              onChange={(e) => setNewLanguage(e.target.value)}
+            >
+              <option value="">Add a language...</option>
+              {available.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+            </select>
+            <Button variant="outline" onClick={addLanguage} disabled={!newLanguage || busyLanguage !== null} isLoading={busyLanguage !== null && !translations.some(t => t.language === busyLanguage)}>
+              Translate
+            </Button>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {!translation && (
+            <p className="text-center text-brand-400 italic py-8">
+              Pick a language to translate the guide into. Names of places stay as they are unless they are descriptions, and addresses are never translated.
+            </p>
+          )}
+
+          {translation && (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-brand-500">
+                  {outdated.length > 0
+                    ? `${outdated.length} ${outdated.length === 1 ? 'entry has' : 'entries have'} changed or been added since the translation.`
+                    : 'Up to date with the original.'}
+                </p>
+                <div className="flex gap-2">
+                  {outdated.length > 0 && (
+                    <Button variant="outline" onClick={() => translate(translation.language, outdated)} isLoading={busyLanguage === translation.language}>
+                      Translate changes
+                    </Button>
+                  )}
+                  <Button variant="ghost" onClick={() => removeLanguage(translation.language)}>
+                    <span className="text-red-600">Remove</span>
+                  </Button>
+                </div>
+              </div>
+
+              <label className="block text-xs font-bold text-brand-600 space-y-1">
+                <span className="flex items-center gap-2">Title {outdatedBadge('title')}</span>
+                <span className="block font-normal text-brand-400">{guide.title}</span>
+                <input className={inputClass} value={translation.title} onChange={(e) => editEntry('title', () => ({ title: e.target.value }))} />
+              </label>
+
+              {guide.days.map((day, dayIndex) => (
+                <div key={day.id} className="space-y-4">
+                  {(isMultiDay || day.title || day.notes) && (
+                    <div className="space-y-2 border-t border-brand-100 pt-4">
+                      <p className="flex items-center gap-2 text-xs font-bold text-brand-600">
+                        {dayHeading(day, dayIndex)} {outdatedBadge(day.id)}
+                      </p>
+                      {(day.title || day.notes) && (
+                        <>
+                          {day.title && (
+                            <input
+                              className={inputClass}
+                              placeholder={day.title}
+                              value={translation.days[day.id]?.title || ''}
+                              onChange={(e) => editEntry(day.id, t => ({ days: { ...t.days, [day.id]: { ...t.days[day.id], title: e.target.value } } }))}
+                            />
+                          )}
+                          {day.notes && (
+                            <textarea
+                              className={inputClass}
+                              rows={2}
+                              placeholder={day.notes}
+                              value={translation.days[day.id]?.notes || ''}
+                              onChange={(e) => editEntry(day.id, t => ({ days: { ...t.days, [day.id]: { ...t.days[day.id], notes: e.target.value } } }))}
+                            />
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {day.places.map(place => {
+                    const entry = translation.places[place.id];
+                    const update = (patch: Partial<{ name: string; description: string }>) =>
+                      editEntry(place.id, t => ({
+                        places: { ...t.places, [place.id]: { name: place.name, description: '', ...t.places[place.id], ...patch } }
+                      }));
+                    return (
+                      <div key={place.id} className="space-y-1">
+                        <p className="flex items-center gap-2 text-xs font-bold text-brand-600">
+                          {place.name} {outdatedBadge(place.id)}
+                        </p>
+                        <p className="text-xs text-brand-400">{place.description}</p>
+                        <input className={inputClass} placeholder={place.name} value={entry?.name || ''} onChange={(e) => update({ name: e.target.value })} />
+                        <textarea
+                          className={inputClass}
+                          rows={3}
+                          placeholder={place.description}
+                          value={entry?.description || ''}
+                          onChange={(e) => update({ description: e.target.value })}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-brand-100 flex justify-end">
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+// Builds data/cities.json, the compact dataset behind services/reverseGeocoder.ts, from the
+// GeoNames exports shipped in the `cities15000` (cities over 15,000 people) and `cities.json`
+// (admin region names) dev dependencies. Run with `npm run build:geodata`.
+import fs from 'node:fs';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+const OUTPUT = path.resolve('data/cities.json');
+
+// Sections of a city (neighbourhoods) and historical places would shadow the city itself
+const SKIPPED_FEATURE_CODES = new Set(['PPLX', 'PPLH', 'PPLQ', 'PPLW']);
+
+const readTsv = (file) => fs.readFileSync(file, 'utf8')
+  .split('\n')
+  .filter(line => line && !line.startsWith('#'))
+  .map(line => line.split('\t'));
+
+const cities15000Dir = path.dirname(require.resolve('cities15000/package.json'));
+const countryNames = new Map(readTsv(path.join(cities15000Dir, 'countryInfo.txt')).map(row => [row[0], row[4]]));
+const admin1Names = new Map(require('cities.json/admin1').map(a => [a.code, a.name]));
+
+const countries = [];
+const regions = [];
+const countryIndex = new Map();
+const regionIndex = new Map();
+
+const indexOf = (map, list, key, entry) => {
+  if (!map.has(key)) {
+    map.set(key, list.length);
+    list.push(entry);
+  }
+  return map.get(key);
+};
+
+const cities = [];
+for (const row of readTsv(path.join(cities15000Dir, 'cities15000.txt'))) {
+  const [, name, , , lat, lng, , featureCode, countryCode, , admin1] = row;
+  if (SKIPPED_FEATURE_CODES.has(featureCode) || !countryNames.has(countryCode)) continue;
+
+  const country = indexOf(countryIndex, countries, countryCode, [countryCode, countryNames.get(countryCode)]);
+  const regionName = admin1Names.get(`${countryCode}.${admin1}`);
+  const region = regionName ? indexOf(regionIndex, regions, `${countryCode}.${admin1}`, [regionName, country]) : -1;
+  // Three decimals are ~100 m, plenty to pick the nearest city
+  cities.push([name, Number(Number(lat).toFixed(3)), Number(Number(lng).toFixed(3)), region, country]);
+}
+
+const data = {
+  attribution: 'Data from GeoNames (https://www.geonames.org), licensed under CC BY 4.0.',
+  // [code, name]
+  countries,
+  // [name, country index]
+  regions,
+  // [name, latitude, longitude, region index or -1, country index]
+  cities
+};
+
+fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+fs.writeFileSync(OUTPUT, JSON.stringify(data));
+console.log(`Wrote ${cities.length} cities, ${regions.length} regions and ${countries.length} countries to ${OUTPUT}`);
@@ -0,0 +1,91 @@
+// Minimal stand-in for the WordPress REST API endpoints the publisher uses.
+// Run with `npm run mock:wordpress`, then point the publish settings at http://localhost:8881
+// with the username and application password below.
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_WP_PORT || 8881);
+const USERNAME = process.env.MOCK_WP_USER || 'admin';
+const APP_PASSWORD = (process.env.MOCK_WP_PASSWORD || 'mock mock mock mock').replace(/\s+/g, '');
+const BASE = `http://localhost:${PORT}`;
+
+const media = new Map();
+const posts = new Map();
+let nextId = 1;
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Content-Disposition',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    ...headers,
+    ...(Buffer.isBuffer(body) ? {} : { 'Content-Type': 'application/json' })
+  });
+  res.end(Buffer.isBuffer(body) ? body : JSON.stringify(body));
+};
+
+const wpError = (res, status, code, message) => send(res, status, { code, message, data: { status } });
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const isAuthorized = (req) => {
+  const header = req.headers.authorization || '';
+  if (!header.startsWith('Basic ')) return false;
+  const [user, ...rest] = Buffer.from(header.slice(6), 'base64').toString().split(':');
+  return user === USERNAME && rest.join(':') === APP_PASSWORD;
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, BASE);
+  console.log(req.method, url.pathname);
+
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+
+  const upload = url.pathname.match(/^\/wp-content\/uploads\/(\d+)$/);
+  if (upload && media.has(Number(upload[1]))) {
+    const item = media.get(Number(upload[1]));
+    return send(res, 200, item.data, { 'Content-Type': item.mimeType });
+  }
+
+  const route = url.pathname.match(/^\/wp-json\/wp\/v2\/(users\/me|media|posts|web-story)(?:\/(\d+))?$/);
+  if (!route) return wpError(res, 404, 'rest_no_route', 'No route was found matching the URL and request method.');
+  if (!isAuthorized(req)) return wpError(res, 401, 'incorrect_password', 'The provided password is an invalid application password.');
+
+  const [, resource, id] = route;
+
+  if (resource === 'users/me' && req.method === 'GET') {
+    return send(res, 200, { id: 1, name: USERNAME });
+  }
+
+  if (resource === 'media' && req.method === 'POST') {
+    const data = await readBody(req);
+    const mediaId = nextId++;
+    const filename = (req.headers['content-disposition'] || '').match(/filename="?([^"]+)"?/)?.[1] || `upload-${mediaId}`;
+    media.set(mediaId, { data, mimeType: req.headers['content-type'] || 'application/octet-stream', filename });
+    return send(res, 201, { id: mediaId, source_url: `${BASE}/wp-content/uploads/${mediaId}` });
+  }
+
+  if ((resource === 'posts' || resource === 'web-story') && req.method === 'POST') {
+    const body = JSON.parse((await readBody(req)).toString() || '{}');
+    if (id) {
+      const existing = posts.get(Number(id));
+      if (!existing || existing.type !== resource) return wpError(res, 404, 'rest_post_invalid_id', 'Invalid post ID.');
+      Object.assign(existing, body);
+      return send(res, 200, existing);
+    }
+    const postId = nextId++;
+    const post = { id: postId, type: resource, link: `${BASE}/?p=${postId}`, ...body };
+    posts.set(postId, post);
+    return send(res, 201, post);
+  }
+
+  return wpError(res, 404, 'rest_no_route', 'No route was found matching the URL and request method.');
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock WordPress listening on ${BASE} (user "${USERNAME}")`);
+});
@@ -0,0 +1,76 @@
+import { AddressInfo } from 'net';
+import { createServer, IncomingMessage, Server } from 'http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ChatContent, ChatTurn } from '../services/aiProvider';
+import { clientIdOf, createAIProxyMiddleware } from './aiProxy';
+
+const request = (remoteAddress: string, forwardedFor?: string) =>
+  ({ socket: { remoteAddress }, headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {} }) as unknown as IncomingMessage;
+
+describe('clientIdOf', () => {
+  it('ignores X-Forwarded-For from clients that are not trusted proxies', () => {
+    expect(clientIdOf(request('203.0.113.7', '1.2.3.4'))).toBe('203.0.113.7');
+    expect(clientIdOf(request('::ffff:203.0.113.7', '1.2.3.4'), ['10.0.0.1'])).toBe('203.0.113.7');
+  });
+
+  it('takes the hop added by the trusted proxy, not what the client sent', () => {
+    expect(clientIdOf(request('10.0.0.1', 'spoofed, 198.51.100.2'), ['10.0.0.1'])).toBe('198.51.100.2');
+    expect(clientIdOf(request('10.0.0.1', 'spoofed, 198.51.100.2, 10.0.0.2'), ['10.0.0.1', '10.0.0.2'])).toBe('198.51.100.2');
+  });
+
+  it('falls back to the proxy itself when it forwarded nothing', () => {
+    expect(clientIdOf(request('10.0.0.1'), ['10.0.0.1'])).toBe('10.0.0.1');
+  });
+});
+
+describe('chat streaming', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const middleware = createAIProxyMiddleware({ mode: 'fake' });
+    server = createServer((req, res) => middleware(req, res, () => { res.statusCode = 404; res.end(); }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  type ChatLine = { text?: string; turn?: ChatTurn; history?: ChatContent[]; error?: string };
+
+  const streamTurn = async (body: unknown): Promise<ChatLine[]> => {
+    const response = await fetch(`${baseUrl}/api/ai/chat`, { method: 'POST', body: JSON.stringify(body) });
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+    return (await response.text()).split('\n').filter(Boolean).map(line => JSON.parse(line));
+  };
+
+  it('streams the text first and attaches the Maps sources with the final line', async () => {
+    const lines = await streamTurn({ message: 'Coffee in Lisbon please' });
+    const final = lines[lines.length - 1];
+    const texts = lines.slice(0, -1).map(l => l.text!);
+
+    expect(texts.length).toBeGreaterThan(1);
+    texts.slice(1).forEach((text, i) => expect(text.startsWith(texts[i])).toBe(true));
+    expect(lines.slice(0, -1).every(l => !l.turn)).toBe(true);
+
+    expect(final.turn!.text).toBe(texts[texts.length - 1]);
+    expect(final.turn!.toolCalls.map(c => c.name)).toEqual(['addPlace', 'addPlace', 'setGuideTitle']);
+    expect(final.turn!.sources.map(s => [s.sourceType, s.title, s.rating])).toEqual([
+      ['maps', 'Fábrica Coffee Roasters', 4.6],
+      ['maps', 'Copenhagen Coffee Lab', 4.5]
+    ]);
+    expect(final.history!.map(c => c.role)).toEqual(['user', 'model']);
+  });
+
+  it('answers the tool responses without a lookup when no place is named', async () => {
+    const first = (await streamTurn({ message: 'Coffee in Lisbon please' })).pop()!;
+    const lines = await streamTurn({
+      history: first.history,
+      message: first.turn!.toolCalls.map(c => ({ name: c.name, response: { ok: true } }))
+    });
+    const final = lines[lines.length - 1];
+
+    expect(final.turn).toEqual({ text: 'Want me to add a pastry stop between them?', toolCalls: [], sources: [] });
+    expect(final.history!.map(c => c.role)).toEqual(['user', 'model', 'user', 'model']);
+  });
+});
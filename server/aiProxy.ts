@@ -0,0 +1,288 @@
+import fs from 'fs';
+import path from 'path';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Plugin } from 'vite';
+import { AIProviderMode, createAIProvider, getAIProviderMode, setAIProvider, ToolResponse } from '../services/aiProvider';
+import { AIRecording, RecordingStore } from '../services/aiRecorder';
+import { analyzeUploadedImage, compactChatHistory, createGuideChat, extractPlaceFromText, getLocalEvents, identifyPhotoCluster, identifyPlaceFromCoords, translateGuideText } from '../services/geminiService';
+import { isSupportedLanguage } from '../services/translations';
+import { GuideText } from '../types';
+
+/**
+ * Server side of the AI features: holds the Gemini key, runs geminiService and
+ * exposes one endpoint per feature under /api/ai. Connect-style, so it mounts in
+ * `vite dev`/`vite preview` (see aiProxyPlugin) or any Express app.
+ */
+
+export interface AIProxyOptions {
+  apiKey?: string;
+  mode?: AIProviderMode;
+  // Per client (IP), with bursts up to the same amount
+  requestsPerMinute?: number;
+  recordingFile?: string;
+  // Addresses of reverse proxies in front of the server; only they may set X-Forwarded-For
+  trustedProxies?: string[];
+}
+
+type Next = (err?: unknown) => void;
+
+const API_PREFIX = '/api/ai/';
+const MAX_BODY_BYTES = 4 * 1024 * 1024; // photos arrive base64-encoded, already resized for the AI
+const MAX_TEXT_LENGTH = 20000;
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readJsonBody = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString() || '{}'));
+    } catch (e) {
+      reject(new HttpError(400, 'Request body must be JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const requireNumber = (value: unknown, name: string): number => {
+  if (typeof value !== 'number' || !isFinite(value)) throw new HttpError(400, `"${name}" must be a number.`);
+  return value;
+};
+
+const requireString = (value: unknown, name: string, maxLength = MAX_TEXT_LENGTH): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${name}" must be a non-empty string.`);
+  if (value.length > maxLength) throw new HttpError(413, `"${name}" is too long.`);
+  return value;
+};
+
+const requireToolResponses = (value: unknown): ToolResponse[] => {
+  if (!Array.isArray(value) || value.some(r => typeof r?.name !== 'string' || typeof r?.response !== 'object')) {
+    throw new HttpError(400, '"message" must be a string or a list of tool responses.');
+  }
+  return value;
+};
+
+const optionalString = (value: unknown, name: string): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  return requireString(value, name);
+};
+
+const requireGuideText = (value: any): GuideText => {
+  if (!Array.isArray(value?.days) || !Array.isArray(value?.places)) {
+    throw new HttpError(400, '"text" must have "days" and "places" lists.');
+  }
+  return {
+    title: requireString(value.title, 'text.title', 500),
+    days: value.days.map((day: any) => ({
+      id: requireString(day?.id, 'text.days.id', 100),
+      title: optionalString(day.title, 'text.days.title'),
+      notes: optionalString(day.notes, 'text.days.notes'),
+    })),
+    places: value.places.map((place: any) => ({
+      id: requireString(place?.id, 'text.places.id', 100),
+      name: requireString(place.name, 'text.places.name', 500),
+      description: optionalString(place.description, 'text.places.description') || '',
+    })),
+  };
+};
+
+// Token bucket per client: refills continuously, `capacity` requests per minute
+const createRateLimiter = (capacity: number) => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = capacity / 60000;
+
+  return (clientId: string): number => {
+    const now = Date.now();
+    const bucket = buckets.get(clientId) || { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    buckets.set(clientId, bucket);
+
+    // Forget idle clients now and then so the map doesn't grow forever
+    if (buckets.size > 10000) {
+      buckets.forEach((b, id) => { if (now - b.updatedAt > 60000) buckets.delete(id); });
+    }
+
+    if (bucket.tokens < 1) return Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+    bucket.tokens -= 1;
+    return 0;
+  };
+};
+
+// "::ffff:10.0.0.1" and "10.0.0.1" are the same client
+const normalizeAddress = (address: string) => address.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+
+/**
+ * The address rate limits are keyed on: the connection's peer. Behind trusted
+ * proxies it is the last X-Forwarded-For hop that is not one of them, the one a
+ * trusted proxy added; entries before it are whatever the client chose to send.
+ */
+export const clientIdOf = (req: IncomingMessage, trustedProxies: string[] = []): string => {
+  const peer = normalizeAddress(req.socket.remoteAddress || '') || 'unknown';
+  const trusted = new Set(trustedProxies.map(normalizeAddress));
+  if (!trusted.has(peer)) return peer;
+
+  const hops = String(req.headers['x-forwarded-for'] || '').split(',').map(normalizeAddress).filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trusted.has(hops[i])) return hops[i];
+  }
+  return peer;
+};
+
+const createFileRecordingStore = (file: string): RecordingStore => ({
+  load: (): AIRecording => {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8')).recorded || {};
+    } catch (e) {
+      return {};
+    }
+  },
+  save: (recording: AIRecording) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ recorded: recording }, null, 2));
+  }
+});
+
+const parseChatRequest = (body: any) => {
+  if (body.history !== undefined && !Array.isArray(body.history)) throw new HttpError(400, '"history" must be a list.');
+  const message = typeof body.message === 'string'
+    ? requireString(body.message, 'message')
+    : requireToolResponses(body.message);
+  return { history: body.history || [], message };
+};
+
+/**
+ * Streams one chat turn as newline-delimited JSON: `{ text }` lines with the text so far,
+ * then `{ turn, history }` (or `{ error }`). A client that hangs up stops the generation.
+ */
+const streamChat = async (res: ServerResponse, body: any) => {
+  const { history, message } = parseChatRequest(body);
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const writeLine = (value: unknown) => res.write(JSON.stringify(value) + '\n');
+  try {
+    const chat = createGuideChat(await compactChatHistory(history));
+    const turn = await chat.sendMessage(message, { signal: controller.signal, onText: text => writeLine({ text }) });
+    writeLine({ turn, history: chat.getHistory() });
+  } catch (e) {
+    if (controller.signal.aborted) return;
+    console.error('AI proxy chat error:', e);
+    writeLine({ error: 'The AI service failed to answer.' });
+  }
+  res.end();
+};
+
+const routes: Record<string, (body: any) => Promise<unknown>> = {
+  events: (body) =>
+    getLocalEvents(requireNumber(body.lat, 'lat'), requireNumber(body.lng, 'lng'), requireString(body.city, 'city', 200)),
+
+  'identify-place': (body) =>
+    identifyPlaceFromCoords(requireNumber(body.lat, 'lat'), requireNumber(body.lng, 'lng')),
+
+  'identify-cluster': (body) => {
+    if (body.lat !== undefined || body.lng !== undefined) {
+      return identifyPhotoCluster({ latitude: requireNumber(body.lat, 'lat'), longitude: requireNumber(body.lng, 'lng') });
+    }
+    const mimeType = requireString(body.photo?.mimeType, 'photo.mimeType', 100);
+    if (!mimeType.startsWith('image/')) throw new HttpError(400, '"photo.mimeType" must be an image type.');
+    return identifyPhotoCluster(undefined, { data: requireString(body.photo?.data, 'photo.data', MAX_BODY_BYTES), mimeType });
+  },
+
+  'extract-place': (body) =>
+    extractPlaceFromText(requireString(body.text, 'text')),
+
+  'translate-guide': (body) => {
+    const language = requireString(body.language, 'language', 20);
+    if (!isSupportedLanguage(language)) throw new HttpError(400, `Unsupported language "${language}".`);
+    return translateGuideText(requireGuideText(body.text), language);
+  },
+
+  'analyze-image': async (body) => {
+    const mimeType = requireString(body.mimeType, 'mimeType', 100);
+    if (!mimeType.startsWith('image/')) throw new HttpError(400, '"mimeType" must be an image type.');
+    return { text: await analyzeUploadedImage(requireString(body.data, 'data', MAX_BODY_BYTES), mimeType) };
+  },
+};
+
+export const createAIProxyMiddleware = (options: AIProxyOptions = {}) => {
+  const mode = options.mode || 'gemini';
+  const needsKey = mode === 'gemini' || mode === 'record';
+  const recordingFile = options.recordingFile || path.resolve('fixtures/ai/recording.json');
+
+  setAIProvider(createAIProvider(mode, {
+    apiKey: options.apiKey,
+    recording: createFileRecordingStore(recordingFile)
+  }));
+  const takeToken = createRateLimiter(options.requestsPerMinute || 30);
+
+  return async (req: IncomingMessage, res: ServerResponse, next: Next) => {
+    const url = req.url || '';
+    if (!url.startsWith(API_PREFIX)) return next();
+
+    const name = url.slice(API_PREFIX.length).split('?')[0];
+    const handler = routes[name];
+    if (!handler && name !== 'chat') return sendJson(res, 404, { error: 'Unknown AI endpoint.' });
+    if (req.method !== 'POST') return sendJson(res, 405, { error: 'Use POST.' }, { Allow: 'POST' });
+    if (needsKey && !options.apiKey) return sendJson(res, 503, { error: 'GEMINI_API_KEY is not configured on the server.' });
+
+    const retryAfter = takeToken(clientIdOf(req, options.trustedProxies));
+    if (retryAfter > 0) {
+      return sendJson(res, 429, { error: 'Too many requests, please slow down.' }, { 'Retry-After': String(retryAfter) });
+    }
+
+    try {
+      const body = await readJsonBody(req);
+      if (name === 'chat') return await streamChat(res, body);
+      sendJson(res, 200, await handler(body));
+    } catch (e: any) {
+      if (e instanceof HttpError) return sendJson(res, e.status, { error: e.message });
+      console.error(`AI proxy error on ${url}:`, e);
+      sendJson(res, 502, { error: 'The AI service failed to answer.' });
+    }
+  };
+};
+
+// Mounts the proxy on both the dev server and `vite preview`
+export const aiProxyPlugin = (env: Record<string, string>): Plugin => {
+  const options: AIProxyOptions = {
+    apiKey: env.GEMINI_API_KEY,
+    mode: getAIProviderMode(env.AI_PROVIDER),
+    requestsPerMinute: Number(env.AI_RATE_LIMIT) || undefined,
+    trustedProxies: env.AI_TRUSTED_PROXIES ? env.AI_TRUSTED_PROXIES.split(',').map(a => a.trim()).filter(Boolean) : undefined,
+  };
+  return {
+    name: 'a-day-today-ai-proxy',
+    configureServer: (server) => {
+      server.middlewares.use(createAIProxyMiddleware(options));
+    },
+    configurePreviewServer: (server) => {
+      server.middlewares.use(createAIProxyMiddleware(options));
+    },
+  };
+};
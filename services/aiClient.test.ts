@@ -0,0 +1,119 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createAIProxyMiddleware } from '../server/aiProxy';
+import { GuideChange } from '../types';
+import {
+  analyzeUploadedImage,
+  createGuideChat,
+  getLocalEvents,
+  identifyPhotoCluster,
+  identifyPlaceFromCoords,
+  sendGuideMessage
+} from './aiClient';
+import { getAIProviderMode } from './aiProvider';
+import { applyGuideAction, GuideDraftState } from './guideActions';
+
+// The app's flows end to end and offline: this client, the /api/ai proxy and the fake provider behind it
+let server: Server;
+
+beforeAll(async () => {
+  const middleware = createAIProxyMiddleware({ mode: 'fake' });
+  server = createServer((req, res) => middleware(req, res, () => { res.statusCode = 404; res.end(); }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // The client calls the proxy on its own origin
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: string, init?: RequestInit) => realFetch(`${baseUrl}${input}`, init));
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+const emptyDraft = (): GuideDraftState => ({
+  title: 'New guide',
+  tags: [],
+  days: [{ id: 'd1', title: '', places: [] }],
+  activeDayId: 'd1'
+});
+
+// Runs a turn the way the guide editor does: every tool call is applied to the draft
+const runTurn = async (message: string) => {
+  const chat = createGuideChat();
+  let draft = emptyDraft();
+  const changes: GuideChange[] = [];
+  const streamed: string[] = [];
+  const result = await sendGuideMessage(chat, message, call => {
+    const outcome = applyGuideAction(draft, call.name, call.args);
+    if (outcome.change) changes.push(outcome.change);
+    draft = outcome.state;
+    return outcome.response;
+  }, { onText: text => streamed.push(text) });
+  return { result, draft, changes, streamed, history: chat.getHistory() };
+};
+
+it('runs on the fake provider, never on Gemini', () => {
+  expect(getAIProviderMode()).toBe('fake');
+});
+
+describe('guide chat', () => {
+  it('applies the tool calls to the guide and answers after the tool round', async () => {
+    const { result, draft, changes, streamed, history } = await runTurn('Coffee places in Lisbon please');
+
+    expect(draft.title).toBe('Coffee Crawl in Lisbon');
+    expect(draft.days[0].places.map(p => ({ name: p.name, address: p.address, coordinates: p.coordinates }))).toEqual([
+      { name: 'Fábrica Coffee Roasters', address: 'Rua das Flores 63, Lisboa', coordinates: { latitude: 38.7103, longitude: -9.1434 } },
+      { name: 'Copenhagen Coffee Lab', address: 'Rua Nova da Piedade 10, Lisboa', coordinates: { latitude: 38.7135, longitude: -9.1517 } }
+    ]);
+    expect(changes.map(c => c.kind)).toEqual(['added', 'added', 'retitled']);
+
+    expect(result.text).toContain("I've added two of my favourite spots");
+    expect(result.text).toContain('Want me to add a pastry stop between them?');
+    expect(streamed[streamed.length - 1]).toBe(result.text);
+    // Looked up on Maps for the places the turn added
+    expect(result.sources.map(s => s.placeId)).toEqual(['places/fabrica-coffee-roasters', 'places/copenhagen-coffee-lab']);
+    // The user text, the tool calls, the tool responses and the follow-up
+    expect(history.map(c => c.role)).toEqual(['user', 'model', 'user', 'model']);
+  });
+
+  it('leaves the guide alone when the model only talks', async () => {
+    const { result, draft, changes } = await runTurn('Hello there');
+
+    expect(changes).toEqual([]);
+    expect(draft).toEqual(emptyDraft());
+    expect(result.text).not.toBe('');
+  });
+});
+
+describe('dashboard', () => {
+  it('loads the local events with ISO dates and their source links', async () => {
+    const { events, sources } = await getLocalEvents(38.71, -9.14, 'Lisbon');
+
+    expect(events.map(e => ({ title: e.title, date: e.date, category: e.category, url: e.url }))).toEqual([
+      { title: 'Open-air print market', date: '2000-01-01', category: 'market', url: 'https://www.visitlisboa.com/en/events' },
+      { title: 'Late-night jazz session', date: '2000-01-01', category: 'music', url: 'https://www.hcp.pt/agenda' },
+      { title: 'Vinhas wine bar opening', date: '2000-01-01', category: 'food', url: undefined }
+    ]);
+    expect(events[0].endDate).toBe('2099-12-31');
+    expect(sources.map(s => s.sourceType)).toEqual(['search', 'search']);
+  });
+});
+
+describe('photos', () => {
+  const miradouro = { name: 'Miradouro de Santa Luzia', address: 'Largo de Santa Luzia, 1100-487 Lisboa' };
+
+  it('identifies the place a photo was taken at from its position', async () => {
+    expect(await identifyPlaceFromCoords(38.7118, -9.1302)).toMatchObject(miradouro);
+    expect(await identifyPhotoCluster({ latitude: 38.7118, longitude: -9.1302 })).toMatchObject(miradouro);
+  });
+
+  it('identifies the place from the photo itself when it has no position', async () => {
+    expect(await identifyPhotoCluster(undefined, { data: btoa('photo'), mimeType: 'image/jpeg' })).toMatchObject(miradouro);
+  });
+
+  it('describes an uploaded photo', async () => {
+    expect(await analyzeUploadedImage(btoa('photo'), 'image/jpeg')).toContain('azulejo tiles');
+  });
+});
@@ -0,0 +1,217 @@
+import { Coordinates, GroundingSource, GuideText, LocalEvent, Place } from "../types";
+import { AIChat, ChatContent, ChatTurn, SendOptions, ToolCall, ToolResponse } from "./aiProvider";
+
+/**
+ * Browser side of the AI features. Every call goes through the app's own server
+ * (server/aiProxy.ts), which holds the Gemini key and runs geminiService.
+ */
+
+const API_BASE = '/api/ai';
+
+// Safety net against a model that keeps calling tools without answering
+const MAX_TOOL_ROUNDS = 5;
+
+export class AIProxyError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AIProxyError';
+    this.status = status;
+  }
+}
+
+const readErrorMessage = async (response: Response) => {
+  try {
+    return (await response.json()).error || response.statusText;
+  } catch (e) {
+    return response.statusText; // Not a JSON error body
+  }
+};
+
+const postJson = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await fetch(`${API_BASE}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) throw new AIProxyError(await readErrorMessage(response), response.status);
+  return response.json();
+};
+
+export const getLocalEvents = async (lat: number, lng: number, city: string): Promise<{ events: LocalEvent[], rawText: string, sources: GroundingSource[] }> => {
+  try {
+    return await postJson('events', { lat, lng, city });
+  } catch (error) {
+    console.error("Error fetching local events:", error);
+    return { events: [], rawText: "Unable to load local events.", sources: [] };
+  }
+};
+
+// Yields each line of a newline-delimited JSON response as it arrives
+async function* readJsonLines<T>(response: Response): AsyncGenerator<T> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    for (const line of lines) if (line.trim()) yield JSON.parse(line);
+    if (done) return;
+  }
+}
+
+// The server is stateless: each turn sends the history and gets the extended one back
+class ProxyChat implements AIChat {
+  private history: ChatContent[];
+
+  constructor(history: ChatContent[] = []) {
+    this.history = history;
+  }
+
+  getHistory(): ChatContent[] {
+    return this.history;
+  }
+
+  async sendMessage(message: string | ToolResponse[], options: SendOptions = {}): Promise<ChatTurn> {
+    let partial = '';
+    try {
+      const response = await fetch(`${API_BASE}/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ history: this.history, message }),
+        signal: options.signal
+      });
+      if (!response.ok) throw new AIProxyError(await readErrorMessage(response), response.status);
+
+      for await (const line of readJsonLines<{ text?: string; turn?: ChatTurn; history?: ChatContent[]; error?: string }>(response)) {
+        if (line.error) throw new AIProxyError(line.error, 502);
+        if (line.turn && line.history) {
+          this.history = line.history;
+          return line.turn;
+        }
+        if (line.text !== undefined) {
+          partial = line.text;
+          options.onText?.(partial);
+        }
+      }
+      throw new AIProxyError('The chat stream ended early.', 502);
+    } catch (e) {
+      if (options.signal?.aborted) this.keepStoppedTurn(message, partial);
+      throw e;
+    }
+  }
+
+  /**
+   * Records a stopped turn the way the user saw it. Tool responses always get a model turn
+   * after them, since a function call left without an answer would break the next request.
+   */
+  private keepStoppedTurn(message: string | ToolResponse[], partial: string) {
+    if (typeof message === 'string' && !partial) return;
+    this.history = [
+      ...this.history,
+      typeof message === 'string'
+        ? { role: 'user', parts: [{ text: message }] }
+        : { role: 'user', parts: message.map(r => ({ functionResponse: { id: r.id, name: r.name, response: r.response } })) },
+      { role: 'model', parts: [{ text: partial || '(stopped)' }] }
+    ];
+  }
+}
+
+export const createGuideChat = (history?: ChatContent[]): AIChat => new ProxyChat(history);
+
+/**
+ * Sends one user turn and runs any tool calls the model makes until it answers in text.
+ * `handleToolCall` executes a call against the guide and returns the function response.
+ * `options.onText` receives the reply so far across all rounds; aborting `options.signal`
+ * rejects with an AbortError, keeping tool calls that already ran.
+ */
+export const sendGuideMessage = async (
+  chat: AIChat,
+  message: string,
+  handleToolCall: (call: ToolCall) => Record<string, unknown>,
+  options: SendOptions = {}
+): Promise<{ text: string; sources: GroundingSource[] }> => {
+  const texts: string[] = [];
+  const sources: GroundingSource[] = [];
+  const send = (next: string | ToolResponse[]) => chat.sendMessage(next, {
+    signal: options.signal,
+    onText: text => options.onText?.([...texts, text].join('\n\n'))
+  });
+
+  let turn = await send(message);
+  for (let round = 1; ; round++) {
+    if (turn.text) texts.push(turn.text);
+    sources.push(...turn.sources);
+    if (turn.toolCalls.length === 0) break;
+
+    // Past the limit, calls are still answered (unexecuted) so the chat history stays well-formed
+    const exhausted = round > MAX_TOOL_ROUNDS;
+    turn = await send(turn.toolCalls.map(call => ({
+      id: call.id,
+      name: call.name,
+      response: exhausted ? { error: 'Tool call limit reached. Reply to the user now.' } : handleToolCall(call)
+    })));
+    if (exhausted) {
+      if (turn.text) texts.push(turn.text);
+      sources.push(...turn.sources);
+      break;
+    }
+  }
+
+  return {
+    text: texts.join('\n\n'),
+    sources: sources.filter((s, idx) => sources.findIndex(o => o.uri === s.uri) === idx)
+  };
+};
+
+export const identifyPlaceFromCoords = async (lat: number, lng: number): Promise<{ name: string, address: string, description: string } | null> => {
+  try {
+    return await postJson('identify-place', { lat, lng });
+  } catch (e) {
+    console.error("Identify place failed", e);
+    return null;
+  }
+};
+
+// One call per group of photos: by position when known, otherwise from a photo of it
+export const identifyPhotoCluster = async (
+  coordinates?: Coordinates,
+  photo?: { data: string; mimeType: string }
+): Promise<{ name: string, address?: string, description: string } | null> => {
+  try {
+    return await postJson('identify-cluster', coordinates ? { lat: coordinates.latitude, lng: coordinates.longitude } : { photo });
+  } catch (e) {
+    console.error("Identify photo cluster failed", e);
+    return null;
+  }
+};
+
+export const extractPlaceFromText = async (text: string): Promise<Place | null> => {
+  try {
+    return await postJson('extract-place', { text });
+  } catch (e) {
+    return null;
+  }
+};
+
+export const translateGuideText = async (text: GuideText, language: string): Promise<GuideText | null> => {
+  try {
+    return await postJson('translate-guide', { text, language });
+  } catch (e) {
+    console.error("Guide translation failed", e);
+    return null;
+  }
+};
+
+export const analyzeUploadedImage = async (base64Data: string, mimeType: string): Promise<string> => {
+  try {
+    const result = await postJson<{ text: string }>('analyze-image', { data: base64Data, mimeType });
+    return result.text;
+  } catch (e) {
+    console.error("Image analysis failed", e);
+    return "I couldn't quite see that image clearly.";
+  }
+};
@@ -0,0 +1,114 @@
+import { Content, Schema } from "@google/genai";
+import { GroundingSource } from "../types";
+import defaultFixtures from "../fixtures/ai/default.json";
+import { createGeminiProvider } from "./geminiProvider";
+import { createFakeProvider, AIFixtures } from "./fakeAiProvider";
+import { createMemoryRecordingStore, createRecordingProvider, RecordingStore } from "./aiRecorder";
+
+/**
+ * The AI capabilities the app relies on, independent of any SDK.
+ * geminiService builds its features on top of this. It runs on the server
+ * (see server/aiProxy.ts), where AI_PROVIDER picks the implementation.
+ */
+
+// 'fast' for cheap structuring/vision work, 'smart' for grounded answers and the guide chat
+export type ModelTier = 'fast' | 'smart';
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Schema; // plain JSON-schema-like data
+}
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface GroundedResult {
+  text: string;
+  // Every grounding chunk in order, so citation indices line up
+  sources: GroundingSource[];
+  // Which sources support the text ending at `endIndex` (a UTF-8 byte offset into `text`)
+  citations: { endIndex: number; sourceIndices: number[] }[];
+}
+
+export interface ChatTurn {
+  text: string;
+  toolCalls: ToolCall[];
+  sources: GroundingSource[];
+}
+
+// Chat history in the Gemini `Content` shape ({ role, parts }), which is plain serializable data
+export type ChatContent = Content;
+
+export interface SendOptions {
+  // Called with the turn's text so far while it streams in
+  onText?: (text: string) => void;
+  // Aborting stops generation and rejects the send with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface AIChat {
+  // Resolves to the complete turn; grounding sources and tool calls are only known at the end
+  sendMessage(message: string | ToolResponse[], options?: SendOptions): Promise<ChatTurn>;
+  getHistory(): ChatContent[];
+}
+
+export interface ChatOptions {
+  systemInstruction: string;
+  tools: ToolDeclaration[];
+  grounding?: 'search' | 'maps'; // providers may drop it when `tools` is not empty
+  history?: ChatContent[];
+}
+
+export interface AIProvider {
+  createChat(options: ChatOptions): AIChat;
+  generateGrounded(prompt: string, grounding: 'search' | 'maps', tier: ModelTier): Promise<GroundedResult>;
+  // Resolves to the parsed JSON value (null when the model found nothing)
+  extractJson<T>(prompt: string, schema?: Schema): Promise<T | null>;
+  describeImage(base64Data: string, mimeType: string, prompt: string): Promise<string>;
+}
+
+export type AIProviderMode = 'gemini' | 'fake' | 'record' | 'replay';
+
+let provider: AIProvider | null = null;
+
+export const setAIProvider = (next: AIProvider) => {
+  provider = next;
+};
+
+export const getAIProviderMode = (value = process.env.AI_PROVIDER): AIProviderMode => {
+  const mode = (value || 'gemini') as AIProviderMode;
+  return ['gemini', 'fake', 'record', 'replay'].includes(mode) ? mode : 'gemini';
+};
+
+export const createAIProvider = (
+  mode: AIProviderMode,
+  options: { apiKey?: string; recording?: RecordingStore } = {}
+): AIProvider => {
+  const fixtures = defaultFixtures as AIFixtures;
+  const recording = options.recording || createMemoryRecordingStore();
+  switch (mode) {
+    case 'fake':
+      return createFakeProvider(fixtures);
+    case 'replay':
+      return createFakeProvider({ ...fixtures, recorded: { ...fixtures.recorded, ...recording.load() } });
+    case 'record':
+      return createRecordingProvider(createGeminiProvider(options.apiKey || ''), recording);
+    default:
+      return createGeminiProvider(options.apiKey || '');
+  }
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (!provider) provider = createAIProvider(getAIProviderMode(), { apiKey: process.env.GEMINI_API_KEY });
+  return provider;
+};
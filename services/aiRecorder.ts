@@ -0,0 +1,68 @@
+import { Schema } from "@google/genai";
+import { AIChat, AIProvider, ChatContent, ChatOptions, ToolResponse } from "./aiProvider";
+import { hashString } from "./utils";
+
+export type AIRecording = Record<string, unknown>;
+
+// Where recorded responses live: memory in tests, a fixture file on the server
+export interface RecordingStore {
+  load(): AIRecording;
+  save(recording: AIRecording): void;
+}
+
+export const createMemoryRecordingStore = (initial: AIRecording = {}): RecordingStore => {
+  let recording = initial;
+  return {
+    load: () => recording,
+    save: (next) => { recording = next; }
+  };
+};
+
+export const requestKey = (method: string, request: unknown): string =>
+  `${method}:${hashString(JSON.stringify(request))}`;
+
+/**
+ * Key for a chat turn: the system instruction plus everything the user side sent so far.
+ * Model turns are left out (they are what gets replayed), and tool responses are reduced
+ * to their names since the ids they carry (e.g. new place ids) differ between runs.
+ */
+export const chatRequestKey = (systemInstruction: string, history: ChatContent[], message: string | ToolResponse[]): string => {
+  const userSide = history
+    .filter(c => c.role === 'user')
+    .map(c => (c.parts || []).map(p => p.text ?? p.functionResponse?.name ?? '').join('|'));
+  const current = typeof message === 'string' ? message : message.map(r => r.name).join('|');
+  return requestKey('chat', [systemInstruction, ...userSide, current]);
+};
+
+/**
+ * Wraps a live provider and stores every response under its request key,
+ * so the same session can later be replayed offline by the fake provider.
+ */
+export const createRecordingProvider = (inner: AIProvider, store: RecordingStore): AIProvider => {
+  const record = <T>(key: string, value: T): T => {
+    store.save({ ...store.load(), [key]: value });
+    return value;
+  };
+
+  return {
+    createChat: (options: ChatOptions): AIChat => {
+      const chat = inner.createChat(options);
+      return {
+        sendMessage: async (message, sendOptions) => {
+          const key = chatRequestKey(options.systemInstruction, chat.getHistory(), message);
+          return record(key, await chat.sendMessage(message, sendOptions));
+        },
+        getHistory: () => chat.getHistory()
+      };
+    },
+
+    generateGrounded: async (prompt, grounding, tier) =>
+      record(requestKey('grounded', { prompt, grounding }), await inner.generateGrounded(prompt, grounding, tier)),
+
+    extractJson: async <T,>(prompt: string, schema?: Schema) =>
+      record(requestKey('json', { prompt }), await inner.extractJson<T>(prompt, schema)),
+
+    describeImage: async (base64Data, mimeType, prompt) =>
+      record(requestKey('vision', { image: hashString(base64Data), prompt }), await inner.describeImage(base64Data, mimeType, prompt))
+  };
+};
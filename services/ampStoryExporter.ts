@@ -0,0 +1,207 @@
+import { Guide, StaticMapLayout, StoryPage } from "../types";
+import { blobToDataUri, downloadBlob, escapeHtml, extensionForMimeType, guideFileName } from "./utils";
+import { loadImageBlob } from "./guideRepository";
+import { applyLocationPrivacy, stripImageMetadata } from "./privacy";
+import { formatRating } from "./placeGrounding";
+import { buildStoryPages, STORY_HEIGHT, STORY_WIDTH } from "./storyPages";
+import { guideLanguage } from "./translations";
+
+export interface AmpStoryOptions {
+  canonicalUrl?: string;
+  publisher?: string;
+  publisherLogoSrc?: string;
+  // Rewrites every media URL, e.g. to point at uploaded or bundled copies
+  resolveMediaUrl?: (url: string) => string;
+}
+
+export interface StoryAsset {
+  path: string;
+  blob: Blob;
+}
+
+const AMP_BOILERPLATE = `<style amp-boilerplate>body{-webkit-animation:-amp-start 8s steps(1,end) 0s 1 normal both;-moz-animation:-amp-start 8s steps(1,end) 0s 1 normal both;-ms-animation:-amp-start 8s steps(1,end) 0s 1 normal both;animation:-amp-start 8s steps(1,end) 0s 1 normal both}@-webkit-keyframes -amp-start{from{visibility:hidden}to{visibility:visible}}@-moz-keyframes -amp-start{from{visibility:hidden}to{visibility:visible}}@-ms-keyframes -amp-start{from{visibility:hidden}to{visibility:visible}}@-o-keyframes -amp-start{from{visibility:hidden}to{visibility:visible}}@keyframes -amp-start{from{visibility:hidden}to{visibility:visible}}</style><noscript><style amp-boilerplate>body{-webkit-animation:none;-moz-animation:none;-ms-animation:none;animation:none}</style></noscript>`;
+
+// Mirrors the brand palette and fonts from index.html
+const AMP_CUSTOM_CSS = `
+amp-story{font-family:"PT Sans",sans-serif;color:#fff}
+h1,h2{font-family:"Playfair Display",serif;font-weight:400;line-height:1.15;margin:0 0 12px}
+h1{font-size:36px}h2{font-size:26px}
+p{margin:0 0 12px;font-size:15px;line-height:1.5}
+.kicker{display:block;text-transform:uppercase;letter-spacing:.2em;font-size:11px;font-weight:700;color:#e0d2c3;margin-bottom:8px}
+.scrim-bottom{background:linear-gradient(to top,rgba(0,0,0,.85),rgba(0,0,0,0) 60%)}
+.cover-text{align-content:end;padding:48px 24px}
+.place-text{align-content:end;padding:32px 24px;background:linear-gradient(to top,#5f493f 45%,rgba(95,73,63,0) 75%)}
+.address{font-size:12px;color:#cbb39e}
+.address a{color:#fff;font-weight:700}
+.solid{background:#5f493f}
+.end{background:#75584a;align-content:center;text-align:center;padding:32px}
+.map-canvas{position:relative;overflow:hidden;background:#efe8df}
+.map-tile{position:absolute}
+.map-marker{position:absolute;width:28px;height:28px;margin:-14px 0 0 -14px;border-radius:50%;border:2px solid #fff;background:#8e6a56;color:#fff;font-size:12px;font-weight:700;line-height:24px;text-align:center;box-shadow:0 2px 6px rgba(0,0,0,.35)}
+.map-title{align-content:start;padding:48px 24px;color:#5f493f}
+.day-text{align-content:center;padding:32px 24px}
+`;
+
+const pct = (value: number) => `${value.toFixed(3)}%`;
+
+const renderBackground = (src: string | undefined, alt: string, resolve: (url: string) => string): string => {
+  if (!src) return '';
+  return `
+    <amp-story-grid-layer template="fill">
+      <amp-img src="${escapeHtml(resolve(src))}" width="${STORY_WIDTH}" height="${STORY_HEIGHT}" layout="responsive" alt="${escapeHtml(alt)}"></amp-img>
+    </amp-story-grid-layer>`;
+};
+
+const renderMapCanvas = (map?: StaticMapLayout): string => {
+  const tiles = (map?.tiles || []).map(t =>
+    `<div class="map-tile" style="left:${pct(t.left)};top:${pct(t.top)};width:${pct(t.width)};height:${pct(t.height)}"><amp-img src="${escapeHtml(t.url)}" layout="fill" alt=""></amp-img></div>`
+  ).join('');
+  const markers = (map?.markers || []).map(m =>
+    `<div class="map-marker" style="left:${pct(m.left)};top:${pct(m.top)}">${escapeHtml(m.label)}</div>`
+  ).join('');
+  return `
+    <amp-story-grid-layer template="fill" aspect-ratio="${STORY_WIDTH}:${STORY_HEIGHT}">
+      <div class="map-canvas">${tiles}${markers}</div>
+    </amp-story-grid-layer>`;
+};
+
+const renderPage = (page: StoryPage, resolve: (url: string) => string, stopNumber: number): string => {
+  switch (page.type) {
+    case 'cover':
+      return `
+  <amp-story-page id="${page.id}"${page.mediaUrl ? '' : ' class="solid"'}>${renderBackground(page.mediaUrl, page.title || 'Cover', resolve)}
+    <amp-story-grid-layer template="vertical" class="cover-text scrim-bottom">
+      <span class="kicker">City Guide</span>
+      <h1>${escapeHtml(page.title || '')}</h1>
+      <p>by ${escapeHtml(page.text || '')}</p>
+    </amp-story-grid-layer>
+  </amp-story-page>`;
+
+    case 'map':
+      return `
+  <amp-story-page id="${page.id}">${renderMapCanvas(page.map)}
+    <amp-story-grid-layer template="vertical" class="map-title">
+      <span class="kicker">${escapeHtml(page.text || '')}</span>
+      <h2>${escapeHtml(page.title || '')}</h2>
+    </amp-story-grid-layer>
+  </amp-story-page>`;
+
+    // Opens a day of a multi-day guide, over a map of that day's stops when they have positions
+    case 'day':
+      return `
+  <amp-story-page id="${page.id}"${page.map ? '' : ' class="solid"'}>${page.map ? renderMapCanvas(page.map) : ''}
+    <amp-story-grid-layer template="vertical" class="${page.map ? 'map-title' : 'day-text'}">
+      <span class="kicker">${escapeHtml(page.dayLabel || '')}</span>
+      <h2>${escapeHtml(page.title || '')}</h2>${page.text ? `
+      <p>${escapeHtml(page.text)}</p>` : ''}
+    </amp-story-grid-layer>
+  </amp-story-page>`;
+
+    case 'place': {
+      const address = page.placeData?.address;
+      const rating = page.placeData && formatRating(page.placeData);
+      const mapsUri = page.placeData?.mapsUri;
+      const mapsLine = [
+        ...(rating ? [escapeHtml(rating)] : []),
+        ...(mapsUri ? [`<a href="${escapeHtml(mapsUri)}">Open in Maps</a>`] : [])
+      ].join(' · ');
+      return `
+  <amp-story-page id="${page.id}"${page.mediaUrl ? '' : ' class="solid"'}>${renderBackground(page.mediaUrl, page.title || 'Place', resolve)}
+    <amp-story-grid-layer template="vertical" class="place-text">
+      <span class="kicker">Stop ${stopNumber}${page.time ? ` · ${escapeHtml(page.time)}` : ''}</span>
+      <h2>${escapeHtml(page.title || '')}</h2>
+      <p>${escapeHtml(page.text || '')}</p>${address ? `
+      <p class="address">${escapeHtml(address)}</p>` : ''}${mapsLine ? `
+      <p class="address">${mapsLine}</p>` : ''}
+    </amp-story-grid-layer>
+  </amp-story-page>`;
+    }
+
+    case 'end':
+      return `
+  <amp-story-page id="${page.id}">
+    <amp-story-grid-layer template="vertical" class="end">
+      <h2>${escapeHtml(page.title || '')}</h2>
+      <p>${escapeHtml(page.text || '')}</p>
+    </amp-story-grid-layer>
+  </amp-story-page>`;
+  }
+};
+
+/**
+ * Renders a standalone AMP Web Story document from the same pages the React preview uses.
+ */
+export const renderAmpStory = (guide: Guide, pages: StoryPage[] = buildStoryPages(guide), options: AmpStoryOptions = {}): string => {
+  const resolve = options.resolveMediaUrl || ((url: string) => url);
+  const canonicalUrl = options.canonicalUrl || `${guide.id}.html`;
+  const publisher = options.publisher || 'A DAY TODAY';
+  const publisherLogo = options.publisherLogoSrc || 'https://picsum.photos/seed/adaytoday/96/96';
+  const poster = pages.find(p => p.type === 'cover')?.mediaUrl || guide.coverImage;
+
+  // Stops are numbered within their day
+  let stop = 0;
+  const body = pages.map(page => {
+    if (page.type === 'day') stop = 0;
+    return renderPage(page, resolve, page.type === 'place' ? ++stop : stop);
+  }).join('\n');
+
+  return `<!doctype html>
+<html ⚡ lang="${escapeHtml(guideLanguage(guide))}">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(guide.title)}</title>
+  <link rel="canonical" href="${escapeHtml(canonicalUrl)}">
+  <meta name="viewport" content="width=device-width">
+  <script async src="https://cdn.ampproject.org/v0.js"></script>
+  <script async custom-element="amp-story" src="https://cdn.ampproject.org/v0/amp-story-1.0.js"></script>
+  <link href="https://fonts.googleapis.com/css2?family=PT+Sans:wght@400;700&family=Playfair+Display&display=swap" rel="stylesheet">
+  ${AMP_BOILERPLATE}
+  <style amp-custom>${AMP_CUSTOM_CSS}</style>
+</head>
+<body>
+<amp-story standalone
+  title="${escapeHtml(guide.title)}"
+  publisher="${escapeHtml(publisher)}"
+  publisher-logo-src="${escapeHtml(resolve(publisherLogo))}"
+  poster-portrait-src="${escapeHtml(resolve(poster))}">
+${body}
+</amp-story>
+</body>
+</html>
+`;
+};
+
+/**
+ * Moves the guide's own photos (stored or data URI) out of the pages into separate
+ * files without their metadata, returning pages that reference them by relative path.
+ */
+export const bundleStoryAssets = async (pages: StoryPage[], assetDir = 'assets'): Promise<{ pages: StoryPage[]; assets: StoryAsset[] }> => {
+  const assets: StoryAsset[] = [];
+  const bundled: StoryPage[] = [];
+  for (const page of pages) {
+    const loaded = page.mediaUrl ? await loadImageBlob(page.mediaUrl) : null;
+    if (!loaded) {
+      bundled.push(page);
+      continue;
+    }
+    const blob = await stripImageMetadata(loaded);
+    const path = `${assetDir}/${page.id}.${extensionForMimeType(blob.type)}`;
+    assets.push({ path, blob });
+    bundled.push({ ...page, mediaUrl: path });
+  }
+  return { pages: bundled, assets };
+};
+
+// Stored photos only exist in this browser, so a downloaded story carries its photos inline
+const inlinePhotos = (pages: StoryPage[]): Promise<StoryPage[]> =>
+  Promise.all(pages.map(async page => {
+    const blob = page.mediaUrl ? await loadImageBlob(page.mediaUrl) : null;
+    return blob ? { ...page, mediaUrl: await blobToDataUri(await stripImageMetadata(blob)) } : page;
+  }));
+
+// Single self-contained file: photos are embedded, private places blurred
+export const downloadAmpStory = async (guide: Guide) => {
+  const publicGuide = applyLocationPrivacy(guide);
+  const html = renderAmpStory(publicGuide, await inlinePhotos(buildStoryPages(publicGuide)));
+  downloadBlob(new Blob([html], { type: 'text/html' }), guideFileName(guide, 'html'));
+};
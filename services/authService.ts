@@ -0,0 +1,174 @@
+import { User } from "../types";
+import { generateId } from "./guideRepository";
+
+/**
+ * Accounts and the signed-in session. The backend is pluggable (setAuthBackend);
+ * the default one keeps accounts in this browser, a stand-in until the app has
+ * a server of its own.
+ */
+
+export interface AuthBackend {
+  signUp(email: string, password: string, name: string): Promise<User>;
+  signIn(email: string, password: string): Promise<User>;
+  signOut(): Promise<void>;
+  // The user of the stored session, if there is one
+  restoreSession(): Promise<User | null>;
+  getUser(id: string): Promise<User | null>;
+  updateProfile(user: User): Promise<User>;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const ACCOUNTS_STORAGE_KEY = 'a-day-today:accounts';
+const SESSION_STORAGE_KEY = 'a-day-today:session';
+const MIN_PASSWORD_LENGTH = 8;
+const PBKDF2_ITERATIONS = 100000;
+
+interface LocalAccount {
+  email: string;
+  salt: string; // base64
+  passwordHash: string; // base64 PBKDF2-SHA-256
+  user: User;
+}
+
+export const defaultAvatar = (seed: string) => `https://picsum.photos/seed/${encodeURIComponent(seed)}/100/100`;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const hashPassword = async (password: string, salt: Uint8Array): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS }, key, 256);
+  return toBase64(new Uint8Array(bits));
+};
+
+// Accounts and session in localStorage; passwords are only kept as salted hashes
+export const createLocalAuthBackend = (storage: Storage = localStorage): AuthBackend => {
+  const loadAccounts = (): Record<string, LocalAccount> => {
+    try {
+      return JSON.parse(storage.getItem(ACCOUNTS_STORAGE_KEY) || '{}');
+    } catch (e) {
+      console.warn("Could not read accounts", e);
+      return {};
+    }
+  };
+  const saveAccounts = (accounts: Record<string, LocalAccount>) =>
+    storage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts));
+  const findByEmail = (email: string) =>
+    Object.values(loadAccounts()).find(a => a.email === normalizeEmail(email));
+
+  return {
+    signUp: async (email, password, name) => {
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) throw new AuthError('Enter a valid email address.');
+      if (password.length < MIN_PASSWORD_LENGTH) throw new AuthError(`Use a password of at least ${MIN_PASSWORD_LENGTH} characters.`);
+      if (!name.trim()) throw new AuthError('Tell us your name.');
+      if (findByEmail(email)) throw new AuthError('There is already an account with this email.');
+
+      const id = generateId();
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const user: User = { id, name: name.trim(), avatar: defaultAvatar(id) };
+      saveAccounts({
+        ...loadAccounts(),
+        [id]: { email: normalizeEmail(email), salt: toBase64(salt), passwordHash: await hashPassword(password, salt), user }
+      });
+      storage.setItem(SESSION_STORAGE_KEY, id);
+      return user;
+    },
+
+    signIn: async (email, password) => {
+      const account = findByEmail(email);
+      const salt = account ? Uint8Array.from(atob(account.salt), c => c.charCodeAt(0)) : new Uint8Array(16);
+      // Hash even for unknown emails so both failures take as long
+      const hash = await hashPassword(password, salt);
+      if (!account || hash !== account.passwordHash) throw new AuthError('Wrong email or password.');
+      storage.setItem(SESSION_STORAGE_KEY, account.user.id);
+      return account.user;
+    },
+
+    signOut: async () => storage.removeItem(SESSION_STORAGE_KEY),
+
+    restoreSession: async () => {
+      const id = storage.getItem(SESSION_STORAGE_KEY);
+      return (id && loadAccounts()[id]?.user) || null;
+    },
+
+    getUser: async (id) => loadAccounts()[id]?.user || null,
+
+    updateProfile: async (user) => {
+      const accounts = loadAccounts();
+      const account = accounts[user.id];
+      if (!account || storage.getItem(SESSION_STORAGE_KEY) !== user.id) throw new AuthError('You can only edit your own profile.');
+      if (!user.name.trim()) throw new AuthError('Your name cannot be empty.');
+      const updated: User = { ...user, name: user.name.trim(), avatar: user.avatar || defaultAvatar(user.id) };
+      saveAccounts({ ...accounts, [user.id]: { ...account, user: updated } });
+      return updated;
+    }
+  };
+};
+
+let backend: AuthBackend | null = null;
+
+export const setAuthBackend = (next: AuthBackend) => {
+  backend = next;
+};
+
+const getAuthBackend = (): AuthBackend => {
+  if (!backend) backend = createLocalAuthBackend();
+  return backend;
+};
+
+// --- Session ---
+
+// undefined until the stored session has been checked, null for a guest
+let currentUser: User | null | undefined;
+let restoring: Promise<User | null> | null = null;
+const listeners = new Set<(user: User | null | undefined) => void>();
+
+const setCurrentUser = <T extends User | null>(user: T): T => {
+  currentUser = user;
+  listeners.forEach(listener => listener(user));
+  return user;
+};
+
+export const getCurrentUser = (): User | null | undefined => currentUser;
+
+// Calls `listener` on every sign-in, sign-out and profile change; returns the unsubscribe function
+export const subscribeToSession = (listener: (user: User | null | undefined) => void): (() => void) => {
+  listeners.add(listener);
+  if (currentUser === undefined) restoreSession();
+  return () => { listeners.delete(listener); };
+};
+
+export const restoreSession = (): Promise<User | null> => {
+  if (!restoring) {
+    restoring = getAuthBackend().restoreSession()
+      .catch(e => {
+        console.error("Could not restore the session", e);
+        return null;
+      })
+      .then(setCurrentUser);
+  }
+  return restoring;
+};
+
+export const signUp = async (email: string, password: string, name: string): Promise<User> =>
+  setCurrentUser(await getAuthBackend().signUp(email, password, name));
+
+export const signIn = async (email: string, password: string): Promise<User> =>
+  setCurrentUser(await getAuthBackend().signIn(email, password));
+
+export const signOut = async (): Promise<void> => {
+  await getAuthBackend().signOut();
+  setCurrentUser(null);
+};
+
+export const getUserProfile = (id: string): Promise<User | null> => getAuthBackend().getUser(id);
+
+export const updateProfile = async (user: User): Promise<User> =>
+  setCurrentUser(await getAuthBackend().updateProfile(user));
@@ -0,0 +1,32 @@
+import { EventCategory, LocalEvent } from "../types";
+import { toIsoDate } from "./utils";
+
+export const EVENT_CATEGORIES: EventCategory[] = ['art', 'music', 'food', 'nightlife', 'market', 'festival', 'sports', 'family', 'other'];
+
+export type EventWindow = 'all' | 'today' | 'week';
+
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+};
+
+/**
+ * Keeps events that overlap the chosen window (starting today) and match the category.
+ * Events without a date only show up under 'all'.
+ */
+export const filterEvents = (
+  events: LocalEvent[],
+  window: EventWindow,
+  category: EventCategory | 'all',
+  today: string
+): LocalEvent[] => {
+  const windowEnd = window === 'today' ? today : addDays(today, 6);
+  return events.filter(ev => {
+    if (category !== 'all' && ev.category !== category) return false;
+    if (window === 'all') return true;
+    if (!ev.date) return false;
+    const end = ev.endDate || ev.date;
+    return ev.date <= windowEnd && end >= today;
+  });
+};
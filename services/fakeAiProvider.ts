@@ -0,0 +1,110 @@
+import { AIChat, AIProvider, ChatContent, ChatOptions, ChatTurn, GroundedResult, SendOptions, ToolResponse } from "./aiProvider";
+import { AIRecording, chatRequestKey, requestKey } from "./aiRecorder";
+import { hashString } from "./utils";
+
+// A canned answer, used when `match` occurs in the prompt (case-insensitive); rules without `match` always apply
+export interface AIFixtureRule<T> {
+  match?: string;
+  response: T;
+}
+
+export interface AIFixtures {
+  grounded?: AIFixtureRule<GroundedResult>[];
+  json?: AIFixtureRule<unknown>[];
+  vision?: AIFixtureRule<string>[];
+  // `followUp` answers the tool responses sent after the rule's tool calls
+  chat?: (AIFixtureRule<ChatTurn> & { followUp?: ChatTurn })[];
+  // Exact responses captured in record mode; they win over the rules
+  recorded?: AIRecording;
+}
+
+const findRule = <R extends AIFixtureRule<unknown>>(rules: R[] | undefined, prompt: string): R | undefined =>
+  (rules || []).find(r => !r.match || prompt.toLowerCase().includes(r.match.toLowerCase()));
+
+// Pace of the simulated token stream
+const STREAM_CHUNK_DELAY_MS = 40;
+
+const abortError = () => new DOMException('The chat turn was stopped.', 'AbortError');
+
+// Replays the text a few words at a time, like the live API does
+const streamText = async (text: string, options: SendOptions) => {
+  const words = text.split(/(?<=\s)/);
+  for (let i = 0; i < words.length; i += 3) {
+    if (options.signal?.aborted) throw abortError();
+    options.onText?.(words.slice(0, i + 3).join(''));
+    await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+  }
+  if (options.signal?.aborted) throw abortError();
+};
+
+const FALLBACK_CHAT_TURN: ChatTurn = {
+  text: "I'm running offline right now, so I can't look that up. Tell me more about the places you have in mind!",
+  toolCalls: [],
+  sources: []
+};
+
+/**
+ * Deterministic, network-free provider answering from fixtures. Used for offline
+ * development, automated tests and replaying recorded sessions.
+ */
+export const createFakeProvider = (fixtures: AIFixtures): AIProvider => {
+  const recorded = fixtures.recorded || {};
+  const lookup = <T>(key: string): T | undefined => (key in recorded ? (recorded[key] as T) : undefined);
+
+  return {
+    createChat: (options: ChatOptions): AIChat => {
+      const history: ChatContent[] = [...(options.history || [])];
+
+      const answer = (message: string | ToolResponse[]): ChatTurn => {
+        const replayed = lookup<ChatTurn>(chatRequestKey(options.systemInstruction, history, message));
+        if (replayed) return replayed;
+
+        if (typeof message === 'string') return findRule(fixtures.chat, message)?.response || FALLBACK_CHAT_TURN;
+
+        // Tool responses get the follow-up of the rule that matched the last user text
+        const lastText = [...history].reverse()
+          .flatMap(c => (c.role === 'user' ? c.parts || [] : []))
+          .find(p => p.text)?.text || '';
+        return findRule(fixtures.chat, lastText)?.followUp || { text: 'Done! What next?', toolCalls: [], sources: [] };
+      };
+
+      return {
+        sendMessage: async (message, options = {}) => {
+          const turn = answer(message);
+          await streamText(turn.text, options);
+          history.push(
+            typeof message === 'string'
+              ? { role: 'user', parts: [{ text: message }] }
+              : { role: 'user', parts: message.map(r => ({ functionResponse: { id: r.id, name: r.name, response: r.response } })) },
+            {
+              role: 'model',
+              parts: [
+                ...(turn.text ? [{ text: turn.text }] : []),
+                ...turn.toolCalls.map(c => ({ functionCall: { id: c.id, name: c.name, args: c.args } }))
+              ]
+            }
+          );
+          return turn;
+        },
+        getHistory: () => history
+      };
+    },
+
+    generateGrounded: async (prompt, grounding) =>
+      lookup<GroundedResult>(requestKey('grounded', { prompt, grounding }))
+        || findRule(fixtures.grounded, prompt)?.response
+        || { text: '', sources: [], citations: [] },
+
+    extractJson: async <T,>(prompt: string) => {
+      const replayed = lookup<T>(requestKey('json', { prompt }));
+      if (replayed !== undefined) return replayed;
+      const rule = findRule(fixtures.json, prompt);
+      return rule ? (rule.response as T) : null;
+    },
+
+    describeImage: async (base64Data, _mimeType, prompt) =>
+      lookup<string>(requestKey('vision', { image: hashString(base64Data), prompt }))
+        ?? findRule(fixtures.vision, prompt)?.response
+        ?? 'A photo of a place.'
+  };
+};
@@ -0,0 +1,45 @@
+import { GenerateContentResponse } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { toGroundingSources } from './geminiProvider';
+
+// Grounding metadata the way the Gemini API returns it for a Maps-grounded answer
+const response = {
+  candidates: [{
+    groundingMetadata: {
+      groundingChunks: [
+        {
+          maps: {
+            uri: 'https://maps.google.com/?cid=12',
+            title: 'Time Out Market Lisboa',
+            placeId: 'places/ChIJ-time-out',
+            placeAnswerSources: {
+              reviewSnippets: [{ title: 'Loud but worth it', googleMapsUri: 'https://maps.google.com/?cid=12&r=1', authorAttribution: { displayName: 'João' } }]
+            }
+          }
+        },
+        { maps: { uri: 'https://maps.google.com/?cid=13' } },
+        { web: { uri: 'https://example.com/lisbon', title: 'example.com' } }
+      ]
+    }
+  }]
+} as unknown as GenerateContentResponse;
+
+describe('toGroundingSources', () => {
+  it('keeps the place ID, link and review links of Maps chunks', () => {
+    expect(toGroundingSources(response)).toEqual([
+      {
+        sourceType: 'maps',
+        uri: 'https://maps.google.com/?cid=12',
+        title: 'Time Out Market Lisboa',
+        placeId: 'places/ChIJ-time-out',
+        reviewSnippets: [{ title: 'Loud but worth it', uri: 'https://maps.google.com/?cid=12&r=1', author: 'João' }]
+      },
+      { sourceType: 'maps', uri: 'https://maps.google.com/?cid=13', title: 'Map Location', placeId: undefined, reviewSnippets: undefined },
+      { sourceType: 'search', uri: 'https://example.com/lisbon', title: 'example.com' }
+    ]);
+  });
+
+  it('returns nothing for an answer without grounding', () => {
+    expect(toGroundingSources({ candidates: [{}] } as GenerateContentResponse)).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { GoogleGenAI, Chat, GenerateContentResponse, Schema, Tool } from "@google/genai";
+import { GroundingSource } from "../types";
+import { AIChat, AIProvider, ChatContent, ChatOptions, ChatTurn, GroundedResult, ModelTier, SendOptions, ToolCall, ToolResponse } from "./aiProvider";
+
+// Models
+const MODEL_FLASH = 'gemini-2.5-flash';
+const MODEL_PRO = 'gemini-3-pro-preview';
+
+const modelFor = (tier: ModelTier) => (tier === 'smart' ? MODEL_PRO : MODEL_FLASH);
+
+const groundingTool = (grounding: 'search' | 'maps'): Tool =>
+  grounding === 'search' ? { googleSearch: {} } : { googleMaps: {} };
+
+export const toGroundingSources = (response: GenerateContentResponse): GroundingSource[] =>
+  (response.candidates?.[0]?.groundingMetadata?.groundingChunks || []).map(c => {
+    if (!c.maps) return { sourceType: 'search', uri: c.web?.uri, title: c.web?.title || 'Source' };
+    const reviews = c.maps.placeAnswerSources?.reviewSnippets || c.maps.placeAnswerSources?.reviewSnippet || [];
+    return {
+      sourceType: 'maps',
+      uri: c.maps.uri,
+      title: c.maps.title || 'Map Location',
+      placeId: c.maps.placeId,
+      reviewSnippets: reviews.length > 0
+        ? reviews.map(r => ({ title: r.title, uri: r.googleMapsUri, author: r.authorAttribution?.displayName }))
+        : undefined
+    };
+  });
+
+// Only the text parts; `response.text` would also warn about function call parts
+const textOf = (response: GenerateContentResponse) =>
+  (response.candidates?.[0]?.content?.parts || []).map(p => p.text || '').join('');
+
+class GeminiChat implements AIChat {
+  private chat: Chat;
+
+  constructor(chat: Chat) {
+    this.chat = chat;
+  }
+
+  // Curated: failed turns are dropped, so the history is safe to resume from
+  getHistory(): ChatContent[] {
+    return this.chat.getHistory(true);
+  }
+
+  async sendMessage(message: string | ToolResponse[], options: SendOptions = {}): Promise<ChatTurn> {
+    const stream = await this.chat.sendMessageStream({
+      message: typeof message === 'string'
+        ? message
+        : message.map(r => ({ functionResponse: { id: r.id, name: r.name, response: r.response } })),
+      config: { abortSignal: options.signal }
+    });
+
+    let text = '';
+    const toolCalls: ToolCall[] = [];
+    let last: GenerateContentResponse | undefined;
+    for await (const chunk of stream) {
+      const delta = textOf(chunk);
+      if (delta) {
+        text += delta;
+        options.onText?.(text);
+      }
+      toolCalls.push(...(chunk.functionCalls || []).map(c => ({ id: c.id, name: c.name || '', args: c.args || {} })));
+      // Grounding metadata comes with the final chunk
+      if (chunk.candidates?.[0]?.groundingMetadata) last = chunk;
+    }
+
+    // Maps citations are only meaningful when the answer is actually grounded
+    const grounded = !!last?.candidates?.[0]?.groundingMetadata?.groundingSupports;
+    return {
+      text: text.trim(),
+      toolCalls,
+      sources: grounded ? toGroundingSources(last!).filter(s => s.uri) : []
+    };
+  }
+}
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    createChat: (options: ChatOptions) => new GeminiChat(ai.chats.create({
+      model: MODEL_PRO,
+      history: options.history,
+      config: {
+        systemInstruction: options.systemInstruction,
+        // The API has rejected grounding tools next to function declarations, so a chat with tools does without grounding
+        tools: options.tools.length > 0
+          ? [{ functionDeclarations: options.tools }]
+          : options.grounding ? [groundingTool(options.grounding)] : [],
+      }
+    })),
+
+    generateGrounded: async (prompt: string, grounding: 'search' | 'maps', tier: ModelTier): Promise<GroundedResult> => {
+      const response = await ai.models.generateContent({
+        model: modelFor(tier),
+        contents: prompt,
+        config: {
+          tools: [groundingTool(grounding)],
+        }
+      });
+      const supports = response.candidates?.[0]?.groundingMetadata?.groundingSupports || [];
+      return {
+        text: response.text || '',
+        sources: toGroundingSources(response),
+        citations: supports
+          .filter(s => s.segment?.endIndex !== undefined && s.groundingChunkIndices?.length)
+          .map(s => ({ endIndex: s.segment!.endIndex!, sourceIndices: s.groundingChunkIndices! }))
+      };
+    },
+
+    extractJson: async <T,>(prompt: string, schema?: Schema): Promise<T | null> => {
+      const response = await ai.models.generateContent({
+        model: MODEL_FLASH,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          ...(schema ? { responseSchema: schema } : {})
+        }
+      });
+      return JSON.parse(response.text || "null");
+    },
+
+    describeImage: async (base64Data: string, mimeType: string, prompt: string): Promise<string> => {
+      const response = await ai.models.generateContent({
+        model: MODEL_FLASH,
+        contents: {
+          parts: [
+            { inlineData: { data: base64Data, mimeType } },
+            { text: prompt }
+          ]
+        }
+      });
+      return response.text || '';
+    }
+  };
+};
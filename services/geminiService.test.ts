@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { GroundingSource, GuideDay } from '../types';
+import { AIProvider, createAIProvider, GroundedResult, setAIProvider } from './aiProvider';
+import { createMemoryRecordingStore, createRecordingProvider } from './aiRecorder';
+import { AIFixtures, createFakeProvider } from './fakeAiProvider';
+import { getLocalEvents, identifyPhotoCluster, lookUpPlacesOnMaps } from './geminiService';
+import { applyGrounding } from './placeGrounding';
+
+const timeOut: GroundingSource = { sourceType: 'maps', title: 'Time Out Market Lisboa', uri: 'https://maps.google.com/?cid=12', placeId: 'places/ChIJ-time-out' };
+const ribeira: GroundingSource = { sourceType: 'maps', title: 'Mercado da Ribeira', uri: 'https://maps.google.com/?cid=14' };
+
+// A provider answering the lookup with `grounded` and the rating extraction with `ratings`
+const stubProvider = (grounded: GroundedResult, ratings: unknown): AIProvider => ({
+  createChat: () => { throw new Error('not used'); },
+  generateGrounded: async () => grounded,
+  extractJson: async <T,>() => ratings as T,
+  describeImage: async () => '',
+});
+
+describe('lookUpPlacesOnMaps', () => {
+  it('returns the Maps sources with the ratings their citations support', async () => {
+    setAIProvider(stubProvider(
+      {
+        text: 'Time Out Market is rated 4.5. Mercado da Ribeira has no rating listed.',
+        sources: [timeOut, { sourceType: 'search', uri: 'https://example.com' }, ribeira],
+        citations: [{ endIndex: 29, sourceIndices: [0] }, { endIndex: 70, sourceIndices: [2] }]
+      },
+      [{ rating: 4.5, sourceNumber: 1 }, { rating: 9, sourceNumber: 3 }, { rating: 4.2, sourceNumber: 2 }, { rating: '4' }]
+    ));
+
+    expect(await lookUpPlacesOnMaps([{ name: 'Time Out Market' }])).toEqual([{ ...timeOut, rating: 4.5 }, ribeira]);
+  });
+
+  it('leaves ratings out when no citation ties them to a source', async () => {
+    setAIProvider(stubProvider({ text: 'Time Out Market is rated 4.5.', sources: [timeOut], citations: [] }, [{ rating: 4.5, sourceNumber: 1 }]));
+
+    expect(await lookUpPlacesOnMaps([{ name: 'Time Out Market' }])).toEqual([timeOut]);
+  });
+
+  it('gets the grounded link and rating onto the place', async () => {
+    setAIProvider(stubProvider(
+      { text: 'Time Out Market Lisboa is rated 4.5.', sources: [timeOut], citations: [{ endIndex: 36, sourceIndices: [0] }] },
+      [{ rating: 4.5, sourceNumber: 1 }]
+    ));
+    const days: GuideDay[] = [{
+      id: 'd1',
+      title: '',
+      places: [{ id: 'p1', name: 'Time Out Market Lisboa', description: '', rating: 4.8, ratingSource: 'model' }]
+    }];
+
+    const [day] = applyGrounding(days, ['p1'], await lookUpPlacesOnMaps([{ name: 'Time Out Market Lisboa' }]));
+
+    expect(day.places[0]).toMatchObject({
+      mapsUri: timeOut.uri,
+      rating: 4.5,
+      ratingSource: 'maps',
+      grounding: { placeId: timeOut.placeId, uri: timeOut.uri }
+    });
+  });
+});
+
+describe('record and replay', () => {
+  // Stands in for the live API while recording; its answers differ from fixtures/ai
+  const live: AIFixtures = {
+    grounded: [{
+      response: {
+        text: 'Fado night at Tasca do Chico on Friday.',
+        sources: [{ sourceType: 'search', title: 'tascadochico.com', uri: 'https://tascadochico.com' }],
+        citations: [{ endIndex: 39, sourceIndices: [0] }]
+      }
+    }],
+    json: [
+      { match: 'Extract the events', response: [{ title: 'Fado night', description: 'Live fado.', startDate: '2026-10-23', location: 'Tasca do Chico', category: 'music', sourceNumber: 1 }] },
+      { match: 'Extract the place name', response: { name: 'Tasca do Chico', description: 'A tiny fado bar.' } }
+    ],
+    vision: [{ response: 'A tiny bar with guitars on the wall.' }]
+  };
+
+  it('answers a recorded session offline, with the recorded responses', async () => {
+    const store = createMemoryRecordingStore();
+    setAIProvider(createRecordingProvider(createFakeProvider(live), store));
+    const recordedEvents = await getLocalEvents(38.71, -9.14, 'Lisbon');
+    const recordedPlace = await identifyPhotoCluster(undefined, { data: btoa('photo'), mimeType: 'image/jpeg' });
+
+    setAIProvider(createAIProvider('replay', { recording: store }));
+
+    expect(recordedEvents.events.map(e => e.title)).toEqual(['Fado night']);
+    expect(await getLocalEvents(38.71, -9.14, 'Lisbon')).toEqual(recordedEvents);
+    expect(await identifyPhotoCluster(undefined, { data: btoa('photo'), mimeType: 'image/jpeg' })).toEqual(recordedPlace);
+  });
+});
@@ -1,57 +1,120 @@
-import { GoogleGenAI, Chat } from "@google/genai";
-import { GroundingSource, LocalEvent, Place } from "../types";
+import { Type } from "@google/genai";
+import { Coordinates, GroundingSource, GuideText, LocalEvent, Place } from "../types";
+import { AIChat, ChatContent, getAIProvider, GroundedResult, ToolCall, ToolDeclaration } from "./aiProvider";
+import { EVENT_CATEGORIES } from "./eventFilters";
+import { languageLabel } from "./translations";
+import { toIsoDate } from "./utils";
 
-const API_KEY = process.env.API_KEY || ''; 
+const EVENT_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING, description: 'Plain-text event name, no markdown.' },
+      description: { type: Type.STRING, description: 'One or two plain-text sentences.' },
+      startDate: { type: Type.STRING, description: 'First day of the event, YYYY-MM-DD.' },
+      endDate: { type: Type.STRING, description: 'Last day for multi-day events, YYYY-MM-DD.' },
+      location: { type: Type.STRING, description: 'Venue name and/or address.' },
+      category: { type: Type.STRING, enum: EVENT_CATEGORIES },
+      sourceNumber: { type: Type.INTEGER, description: 'The [n] citation number that supports this event.' },
+    },
+    required: ['title', 'description', 'startDate', 'location', 'category'],
+  },
+};
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// One item of EVENT_SCHEMA, as the extractor returns it
+interface ExtractedEvent {
+  title: string;
+  description?: string;
+  startDate?: string;
+  endDate?: string;
+  location?: string;
+  category?: string;
+  sourceNumber?: number;
+}
 
-// Models
-const MODEL_FLASH = 'gemini-2.5-flash';
-const MODEL_PRO = 'gemini-3-pro-preview'; 
+// The schema is a request, not a guarantee: items without a title or with mistyped fields are dropped
+const isExtractedEvent = (value: unknown): value is ExtractedEvent => {
+  if (typeof value !== 'object' || value === null) return false;
+  const item = value as Record<string, unknown>;
+  const optional = (key: string, type: 'string' | 'number') => item[key] === undefined || item[key] === null || typeof item[key] === type;
+  return typeof item.title === 'string'
+    && ['description', 'startDate', 'endDate', 'location', 'category'].every(key => optional(key, 'string'))
+    && optional('sourceNumber', 'number');
+};
+
+const normalizeIsoDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : toIsoDate(parsed);
+};
+
+const stripMarkdown = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/[*_`#]+/g, '').replace(/\[(\d+(,\s*\d+)*)\]/g, '').replace(/\s+/g, ' ').trim() : '';
+
+/**
+ * Inserts [n] citation markers after each grounded segment, numbering sources from 1.
+ * Citation offsets are UTF-8 byte offsets, so the text is edited as bytes.
+ */
+const addCitationMarkers = (result: GroundedResult): string => {
+  const encoder = new TextEncoder();
+  let bytes = encoder.encode(result.text);
+
+  const sorted = [...result.citations].sort((a, b) => b.endIndex - a.endIndex);
+  for (const citation of sorted) {
+    const marker = encoder.encode(` ${citation.sourceIndices.map(i => `[${i + 1}]`).join('')}`);
+    const end = Math.min(citation.endIndex, bytes.length);
+    const next = new Uint8Array(bytes.length + marker.length);
+    next.set(bytes.subarray(0, end));
+    next.set(marker, end);
+    next.set(bytes.subarray(end), end + marker.length);
+    bytes = next;
+  }
+
+  return new TextDecoder().decode(bytes);
+};
 
 export const getLocalEvents = async (lat: number, lng: number, city: string): Promise<{ events: LocalEvent[], rawText: string, sources: GroundingSource[] }> => {
   try {
-    const model = ai.models;
+    const provider = getAIProvider();
+    const today = toIsoDate(new Date());
     
     // We use Google Search Grounding to find live events
-    const prompt = `Find interesting events, art exhibitions, or new restaurant openings happening today or this week in ${city} (around lat: ${lat}, lng: ${lng}). List 3 distinct items. Return the response as a bulleted list with clear titles and brief descriptions.`;
-
-    const response = await model.generateContent({
-      model: MODEL_FLASH,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
-    });
-
-    const text = response.text || "No events found.";
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    
-    const sources: GroundingSource[] = chunks
-      .filter(c => c.web?.uri)
-      .map(c => ({
-        title: c.web?.title || 'Source',
-        uri: c.web?.uri,
-        sourceType: 'search'
-      }));
-
-    // Simple parsing of the text for UI cards
-    const lines = text.split('\n');
-    const events: LocalEvent[] = [];
-    let currentEvent: Partial<LocalEvent> | null = null;
-
-    lines.forEach(line => {
-      if (line.trim().startsWith('*') || line.trim().startsWith('-')) {
-        if (currentEvent && currentEvent.title) events.push(currentEvent as LocalEvent);
-        currentEvent = { title: line.replace(/^[\*\-]\s*/, '').trim(), description: '' };
-      } else if (currentEvent) {
-        currentEvent.description += line + ' ';
-      }
-    });
-    if (currentEvent && currentEvent.title) events.push(currentEvent as LocalEvent);
-
-    return { events: events.slice(0, 3), rawText: text, sources };
+    const prompt = `Today is ${today}. Find interesting events, art exhibitions, markets, concerts or new restaurant openings happening today or within the next 7 days in ${city} (around lat: ${lat}, lng: ${lng}). List up to 8 distinct items. For each give the name, the exact dates, the venue and a brief description.`;
+
+    const grounded = await provider.generateGrounded(prompt, 'search', 'fast');
+
+    const text = grounded.text || "No events found.";
+    const sources: GroundingSource[] = grounded.sources.filter(s => s.sourceType === 'search' && s.uri);
+
+    // Search grounding can't be combined with a response schema, so structure the grounded answer in a second pass.
+    // Citation markers let the extractor say which source backs each event.
+    const extracted = await provider.extractJson<unknown>(
+      `Today is ${today}. Extract the events from this text. Resolve relative dates ("tonight", "this Saturday") against today. The [n] markers are citations; report the one that supports each event.\n\n${addCitationMarkers(grounded)}`,
+      EVENT_SCHEMA
+    );
+
+    const events: LocalEvent[] = (Array.isArray(extracted) ? extracted : [])
+      .filter(isExtractedEvent)
+      .map(item => {
+        const date = normalizeIsoDate(item.startDate);
+        const endDate = normalizeIsoDate(item.endDate);
+        const sourceNumber = Number(item.sourceNumber);
+        return {
+          title: stripMarkdown(item.title),
+          description: stripMarkdown(item.description),
+          date,
+          endDate: endDate && date && endDate > date ? endDate : undefined,
+          location: stripMarkdown(item.location) || undefined,
+          category: EVENT_CATEGORIES.find(c => c === item.category) || 'other',
+          url: Number.isInteger(sourceNumber) ? grounded.sources[sourceNumber - 1]?.uri : undefined,
+        };
+      })
+      .filter(ev => ev.title);
+
+    return { events, rawText: text, sources };
 
   } catch (error) {
     console.error("Error fetching local events:", error);
@@ -59,61 +122,276 @@ export const getLocalEvents = async (lat: number, lng: number, city: string): Pr
   }
 };
 
-export const createGuideChat = (): Chat => {
-  return ai.chats.create({
-    model: MODEL_PRO,
-    config: {
-      systemInstruction: `You are an expert city guide curator for the 'A DAY TODAY' app. 
+// Tools the guide chat uses to edit the guide directly; executed by the client (see guideActions)
+const GUIDE_TOOLS: ToolDeclaration[] = [
+  {
+    name: 'addPlace',
+    description: 'Add a real, specific place to the guide. Call once per place; several calls per turn are fine.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Exact name of the place as on Google Maps.' },
+        description: { type: Type.STRING, description: 'One or two sentences on why it belongs in this guide.' },
+        address: { type: Type.STRING, description: 'Street address.' },
+        latitude: { type: Type.NUMBER },
+        longitude: { type: Type.NUMBER },
+        rating: { type: Type.NUMBER, description: 'Your own estimate of how good the place is, 1 to 5, if you have one. Shown as an AI estimate until a Google Maps lookup finds the real rating.' },
+        day: { type: Type.INTEGER, description: 'For multi-day trips: day to add it to, 1 being the first. One past the last day starts a new day. Defaults to the day the user is working on.' },
+      },
+      required: ['name', 'description'],
+    },
+  },
+  {
+    name: 'updatePlace',
+    description: 'Change details of a place already in the guide. Identify it by placeId (preferred) or its current name.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        placeId: { type: Type.STRING },
+        name: { type: Type.STRING, description: 'Current name, if placeId is unknown.' },
+        newName: { type: Type.STRING },
+        description: { type: Type.STRING },
+        address: { type: Type.STRING },
+        latitude: { type: Type.NUMBER },
+        longitude: { type: Type.NUMBER },
+        rating: { type: Type.NUMBER, description: 'Your own estimate of how good the place is, 1 to 5.' },
+        day: { type: Type.INTEGER, description: 'Move the place to the end of this day, 1 being the first.' },
+      },
+    },
+  },
+  {
+    name: 'removePlace',
+    description: 'Remove a place from the guide. Identify it by placeId (preferred) or its current name.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        placeId: { type: Type.STRING },
+        name: { type: Type.STRING },
+      },
+    },
+  },
+  {
+    name: 'setGuideTitle',
+    description: 'Set the title of the guide once its theme is clear.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+      },
+      required: ['title'],
+    },
+  },
+  {
+    name: 'setGuideTags',
+    description: 'Set the tags of the guide: the vibes it is about, like "Art & Coffee" or "Nightlife". Replaces the current tags.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'One to four short tags.' },
+      },
+      required: ['tags'],
+    },
+  },
+];
+
+const PLACE_RATING_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      rating: { type: Type.NUMBER, description: 'Google Maps rating from 1 to 5, as stated in the text.' },
+      sourceNumber: { type: Type.INTEGER, description: 'The [n] citation number that supports the rating.' },
+    },
+    required: ['rating', 'sourceNumber'],
+  },
+};
+
+const isPlaceRating = (value: unknown): value is { rating: number; sourceNumber: number } => {
+  const item = value as Record<string, unknown> | null;
+  return typeof item?.rating === 'number' && item.rating >= 1 && item.rating <= 5 && Number.isInteger(item.sourceNumber);
+};
+
+/**
+ * Looks places up on Google Maps and returns the Maps sources found for them, with the
+ * rating the grounded answer gave where a citation ties it to the source.
+ * The guide chat can't be grounded itself (the API won't take Maps grounding next to
+ * function declarations), so the places a turn names get a grounded call of their own.
+ */
+export const lookUpPlacesOnMaps = async (places: { name: string; address?: string }[]): Promise<GroundingSource[]> => {
+  if (places.length === 0) return [];
+  try {
+    const list = places.map((p, idx) => `${idx + 1}. ${p.name}${p.address ? `, ${p.address}` : ''}`).join('\n');
+    const grounded = await getAIProvider().generateGrounded(
+      `Find these places on Google Maps. For each, give its name as listed on Google Maps, its address and its Google Maps rating.\n\n${list}`,
+      'maps',
+      'fast'
+    );
+
+    // Only a citation says which place a rating in the answer belongs to
+    const sources = [...grounded.sources];
+    if (grounded.citations.length > 0) {
+      const extracted = await getAIProvider().extractJson<unknown>(
+        `Extract the Google Maps ratings from this text. The [n] markers are citations; report the one that supports each rating. Leave out places without a rating.\n\n${addCitationMarkers(grounded)}`,
+        PLACE_RATING_SCHEMA
+      );
+      (Array.isArray(extracted) ? extracted : []).filter(isPlaceRating).forEach(({ rating, sourceNumber }) => {
+        const source = sources[sourceNumber - 1];
+        if (source?.sourceType === 'maps') sources[sourceNumber - 1] = { ...source, rating: Math.round(rating * 10) / 10 };
+      });
+    }
+    return sources.filter(s => s.sourceType === 'maps' && s.uri);
+  } catch (e) {
+    console.error("Maps lookup failed", e);
+    return [];
+  }
+};
+
+// The place an addPlace or updatePlace call names, to be looked up on Maps
+const placeNamedBy = (call: ToolCall): { name: string; address?: string } | null => {
+  if (call.name !== 'addPlace' && call.name !== 'updatePlace') return null;
+  const name = call.args.newName || call.args.name;
+  if (typeof name !== 'string' || !name.trim()) return null;
+  return { name: name.trim(), address: typeof call.args.address === 'string' ? call.args.address : undefined };
+};
+
+// Adds the Maps sources for the places each turn names, so they arrive with the turn like grounding would
+const withMapsLookup = (chat: AIChat): AIChat => ({
+  getHistory: () => chat.getHistory(),
+  sendMessage: async (message, options) => {
+    const turn = await chat.sendMessage(message, options);
+    const places = turn.toolCalls.map(placeNamedBy).filter((p): p is { name: string; address?: string } => p !== null);
+    if (places.length === 0) return turn;
+    return { ...turn, sources: [...turn.sources, ...await lookUpPlacesOnMaps(places)] };
+  },
+});
+
+export const createGuideChat = (history?: ChatContent[]): AIChat => {
+  return withMapsLookup(getAIProvider().createChat({
+    systemInstruction: `You are an expert city guide curator for the 'A DAY TODAY' app. 
       Your goal is to help the user build a travel guide.
       
       RULES:
       1. Ask the user about the vibe they want (e.g., 'Art & Coffee', 'Nightlife', 'Hidden Gems').
-      2. If the user provides a geolocation (lat/long), IMMEDIATELY use your Google Maps tool to identify the place at those coordinates.
-      3. Suggest specific places using Google Maps grounding to ensure they are real and get their addresses/ratings.
+      2. If the user uploads a photo with a location, the app tells you which place Google Maps finds there; add that place with those coordinates.
+      3. Only suggest real, specific places you are sure of, with their exact names as listed on Google Maps and their addresses. The app looks every place you add up on Google Maps afterwards.
       4. Be concise, warm, and engaging.
-      5. Always try to provide the exact location name so we can pin it on a map.`,
-      tools: [{ googleMaps: {} }], 
-    }
-  });
+      5. When the user wants a place in the guide, call addPlace with its exact name, address and coordinates. Use updatePlace, removePlace, setGuideTitle and setGuideTags to keep the guide in sync with the conversation; tag the guide with the vibe the user chose. Only add places the user asked for or uploaded.
+      6. Guides can span several days. When the user plans more than one day, pass the day to addPlace and keep each day walkable.`,
+    tools: GUIDE_TOOLS,
+    history,
+  }));
+};
+
+// Budget for the history sent with each chat turn (roughly 4 characters per token)
+const MAX_HISTORY_CHARS = 60000;
+// How much of the latest conversation survives a compaction word for word
+const KEEP_RECENT_CHARS = 20000;
+
+const SUMMARY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Plain-text summary, at most 200 words.' },
+  },
+  required: ['summary'],
+};
+
+const contentSize = (content: ChatContent) => JSON.stringify(content).length;
+
+const isUserText = (content: ChatContent) =>
+  content.role === 'user' && (content.parts || []).some(p => p.text);
+
+const transcriptOf = (history: ChatContent[]) =>
+  history.flatMap(c => (c.parts || []).map(p => {
+    const speaker = c.role === 'user' ? 'User' : 'Curator';
+    if (p.text) return `${speaker}: ${p.text}`;
+    if (p.functionCall) return `(${speaker} called ${p.functionCall.name} ${JSON.stringify(p.functionCall.args)})`;
+    return '';
+  })).filter(Boolean).join('\n');
+
+/**
+ * Keeps a resumed conversation within the context window. Past the budget, the older
+ * turns are replaced by a summary; the cut is made before a user message so no tool
+ * call is separated from its response. Without a summary the older turns are dropped.
+ */
+export const compactChatHistory = async (history: ChatContent[]): Promise<ChatContent[]> => {
+  if (history.reduce((size, c) => size + contentSize(c), 0) <= MAX_HISTORY_CHARS) return history;
+
+  let start = history.length;
+  let keptSize = 0;
+  for (let i = history.length - 1; i > 0; i--) {
+    keptSize += contentSize(history[i]);
+    if (keptSize > KEEP_RECENT_CHARS) break;
+    if (isUserText(history[i])) start = i;
+  }
+  const recent = history.slice(start);
+
+  try {
+    const result = await getAIProvider().extractJson<{ summary: string }>(
+      `Summarize this conversation between a user and a city guide curator. Keep the city, the vibe the user wants, places discussed or added to the guide, and any preferences or decisions.\n\n${transcriptOf(history.slice(0, start))}`,
+      SUMMARY_SCHEMA
+    );
+    if (!result?.summary) return recent;
+    return [
+      { role: 'user', parts: [{ text: `Summary of our conversation so far: ${result.summary}` }] },
+      { role: 'model', parts: [{ text: "Thanks, I'm up to speed. Let's continue." }] },
+      ...recent
+    ];
+  } catch (e) {
+    console.error("Chat summary failed", e);
+    return recent;
+  }
 };
 
 export const identifyPlaceFromCoords = async (lat: number, lng: number): Promise<{ name: string, address: string, description: string } | null> => {
     try {
-        const response = await ai.models.generateContent({
-            model: MODEL_PRO,
-            contents: `What is the specific point of interest located at Latitude: ${lat}, Longitude: ${lng}? Provide the name and a short 1-sentence description.`,
-            config: {
-                tools: [{ googleMaps: {} }]
-            }
-        });
-        
-        const text = response.text || "";
+        const provider = getAIProvider();
+        const grounded = await provider.generateGrounded(
+            `What is the specific point of interest located at Latitude: ${lat}, Longitude: ${lng}? Provide the name and a short 1-sentence description.`,
+            'maps',
+            'smart'
+        );
         
         // Secondary extraction to clean up the answer into JSON
-        const extraction = await ai.models.generateContent({
-            model: MODEL_FLASH,
-            contents: `Extract the place name and description from this text: "${text}". Return JSON: { "name": "...", "address": "...", "description": "..." }`,
-            config: { responseMimeType: "application/json" }
-        });
-        
-        return JSON.parse(extraction.text || "null");
+        return await provider.extractJson(
+            `Extract the place name and description from this text: "${grounded.text}". Return JSON: { "name": "...", "address": "...", "description": "..." }`
+        );
     } catch (e) {
         console.error("Identify place failed", e);
         return null;
     }
 }
 
+/**
+ * Names the place a group of photos was taken at: by the group's position when the
+ * photos have GPS, otherwise by looking at one of them.
+ */
+export const identifyPhotoCluster = async (
+    coordinates?: Coordinates,
+    photo?: { data: string; mimeType: string }
+): Promise<{ name: string, address?: string, description: string } | null> => {
+    if (coordinates) return identifyPlaceFromCoords(coordinates.latitude, coordinates.longitude);
+    if (!photo) return null;
+    try {
+        const provider = getAIProvider();
+        const seen = await provider.describeImage(
+            photo.data,
+            photo.mimeType,
+            "Which place is this? If you recognize the landmark, venue or street, name it and say where it is. Otherwise describe it briefly."
+        );
+        return await provider.extractJson(
+            `Extract the place name and description from this text: "${seen}". Return JSON: { "name": "...", "address": "...", "description": "..." }. If no specific place is named, return null.`
+        );
+    } catch (e) {
+        console.error("Identify photo cluster failed", e);
+        return null;
+    }
+}
+
 export const extractPlaceFromText = async (text: string): Promise<Place | null> => {
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_FLASH,
-      contents: `Extract the main venue/place mentioned in this text: "${text}". Return ONLY a JSON object with keys: name, description, address. If no specific place is clear, return null.`,
-      config: {
-         responseMimeType: "application/json"
-      }
-    });
-    
-    const json = JSON.parse(response.text || "null");
+    const json = await getAIProvider().extractJson<{ name: string; description: string; address?: string }>(
+      `Extract the main venue/place mentioned in this text: "${text}". Return ONLY a JSON object with keys: name, description, address. If no specific place is clear, return null.`
+    );
     if (!json) return null;
 
     return {
@@ -128,20 +406,64 @@ export const extractPlaceFromText = async (text: string): Promise<Place | null>
   }
 }
 
+const GUIDE_TEXT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    days: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { id: { type: Type.STRING }, title: { type: Type.STRING }, notes: { type: Type.STRING } },
+        required: ['id'],
+      },
+    },
+    places: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { id: { type: Type.STRING }, name: { type: Type.STRING }, description: { type: Type.STRING } },
+        required: ['id', 'name', 'description'],
+      },
+    },
+  },
+  required: ['title', 'days', 'places'],
+};
+
+/**
+ * Translates the text of a guide, entry by entry with the ids kept, so the author can
+ * review each one. Proper names stay as they are.
+ */
+export const translateGuideText = async (text: GuideText, language: string): Promise<GuideText | null> => {
+  try {
+    const result = await getAIProvider().extractJson<GuideText>(
+      `Translate this city guide into ${languageLabel(language)} (${language}). Return the same JSON structure with the same ids.
+Rules:
+- Keep proper names as they are: venues, businesses, landmarks, streets and neighbourhoods. Only translate a place name that is a plain description, like "Viewpoint over the river".
+- Keep the tone of the original; plain text, no markdown.
+- Leave empty fields empty.
+
+${JSON.stringify(text)}`,
+      GUIDE_TEXT_SCHEMA
+    );
+    if (!result) return null;
+    return { title: result.title || '', days: result.days || [], places: result.places || [] };
+  } catch (e) {
+    console.error("Guide translation failed", e);
+    return null;
+  }
+};
+
 export const analyzeUploadedImage = async (base64Data: string, mimeType: string) => {
     try {
-        const response = await ai.models.generateContent({
-            model: MODEL_FLASH,
-            contents: {
-                parts: [
-                    { inlineData: { data: base64Data, mimeType } },
-                    { text: "Identify this place or describe the atmosphere. If it looks like a landmark, name it." }
-                ]
-            }
-        });
-        return response.text;
+        const text = await getAIProvider().describeImage(
+            base64Data,
+            mimeType,
+            "Identify this place or describe the atmosphere. If it looks like a landmark, name it."
+        );
+        return text || "I couldn't quite see that image clearly.";
     } catch (e) {
         console.error("Image analysis failed", e);
         return "I couldn't quite see that image clearly.";
     }
-}
\ No newline at end of file
+}
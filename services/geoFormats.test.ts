@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { Guide, GuideDay, Place } from '../types';
+import { exportGeoJson, exportGpx, exportKml, GeoFormat, ImportedGuide, parseGeoFile } from './geoFormats';
+
+const place = (id: string, overrides: Partial<Place> = {}): Place => ({
+  id,
+  name: `Place ${id}`,
+  description: `Why ${id} & friends are worth a <visit>`,
+  coordinates: { latitude: 38.71 + Number(id) / 1000, longitude: -9.14 - Number(id) / 1000 },
+  address: `Rua ${id}, Lisboa`,
+  startTime: '09:30',
+  durationMinutes: 45,
+  rating: 4.5,
+  ...overrides
+});
+
+const guideWith = (days: GuideDay[]): Guide => ({
+  id: 'g1',
+  title: 'Lisbon in a day',
+  author: { id: 'u1', name: 'Ana', avatar: '' },
+  days,
+  coverImage: '',
+  locationName: 'Lisbon',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  status: 'draft'
+});
+
+const singleDay = guideWith([{ id: 'd1', title: '', places: [place('1'), place('2', { rating: undefined })] }]);
+const multiDay = guideWith([
+  { id: 'd1', title: 'Old town', notes: 'Start early, it gets hot.', places: [place('1'), place('2')] },
+  { id: 'd2', title: 'Belém', notes: 'Pastries first.', places: [place('3', { startTime: '14:00', durationMinutes: 90 })] }
+]);
+
+const EXPORTERS: Record<GeoFormat, (guide: Guide) => string> = { geojson: exportGeoJson, kml: exportKml, gpx: exportGpx };
+
+const roundTrip = (guide: Guide, format: GeoFormat): ImportedGuide =>
+  parseGeoFile(EXPORTERS[format](guide), `guide.${format}`);
+
+// What a stop should look like after the trip; ids are always new
+const withoutId = ({ id, ...rest }: Place) => rest;
+
+describe.each(['geojson', 'kml', 'gpx'] as GeoFormat[])('%s round trip', format => {
+  it('keeps every detail of a single-day guide', () => {
+    const imported = roundTrip(singleDay, format);
+    expect(imported.title).toBe(singleDay.title);
+    expect(imported.days).toHaveLength(1);
+    expect(imported.days[0].places.map(withoutId)).toEqual(singleDay.days[0].places.map(withoutId));
+  });
+
+  it('keeps the days of a multi-day guide, with their titles and notes', () => {
+    const imported = roundTrip(multiDay, format);
+    expect(imported.days.map(d => ({ title: d.title, notes: d.notes }))).toEqual(
+      multiDay.days.map(d => ({ title: d.title, notes: d.notes }))
+    );
+    imported.days.forEach((day, idx) =>
+      expect(day.places.map(withoutId)).toEqual(multiDay.days[idx].places.map(withoutId)));
+  });
+});
+
+describe('gpx', () => {
+  // GPX points need a position, so stops without one can't be written
+  it('leaves out stops without coordinates', () => {
+    const guide = guideWith([{ id: 'd1', title: '', places: [place('1'), place('2', { coordinates: undefined })] }]);
+    const imported = roundTrip(guide, 'gpx');
+    expect(imported.days[0].places.map(p => p.name)).toEqual(['Place 1']);
+  });
+});
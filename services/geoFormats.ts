@@ -0,0 +1,437 @@
+import { Coordinates, Guide, GuideDay, GuideWalk, Place } from "../types";
+import { generateId } from "./guideRepository";
+import { applyLocationPrivacy } from "./privacy";
+import { dayHeading } from "./guideDays";
+import { downloadBlob, escapeHtml, guideFileName } from "./utils";
+
+/**
+ * Guides as files other map apps understand (GeoJSON, KML, GPX), and back.
+ * Name, description and position are standard in all three; everything else
+ * the app knows about a stop travels in each format's extension slot, so a
+ * guide survives a round trip through its own export. Days of a multi-day guide
+ * become a numbered property (GeoJSON), folders (KML) or routes (GPX).
+ */
+
+export type GeoFormat = 'geojson' | 'kml' | 'gpx';
+
+export interface ImportedDay {
+  title?: string;
+  notes?: string;
+  places: Place[];
+}
+
+// Files without days come back as a single day
+export interface ImportedGuide {
+  title?: string;
+  days: ImportedDay[];
+}
+
+const FILE_TYPES: Record<GeoFormat, { extension: string; mimeType: string }> = {
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml' }
+};
+
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2';
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+// Our own GPX extension elements
+const PLACE_NAMESPACE = 'urn:a-day-today:place:1';
+
+// Accepted by the file picker
+export const GEO_FILE_ACCEPT = '.geojson,.json,.kml,.gpx';
+
+// Stop details with no standard slot; photos stored in this browser can't travel
+const extraFieldsOf = (place: Place): [string, string][] => {
+  const fields: [string, string | number | boolean | undefined][] = [
+    ['startTime', place.startTime],
+    ['durationMinutes', place.durationMinutes],
+    ['approximate', place.approximate || undefined],
+    ['rating', place.rating],
+    ['mapsUri', place.mapsUri],
+    ['imageUrl', place.imageUrl && /^https?:/.test(place.imageUrl) ? place.imageUrl : undefined]
+  ];
+  return fields.flatMap(([name, value]) => (value === undefined ? [] : [[name, String(value)]]));
+};
+
+const numberOrUndefined = (value?: string) => {
+  const number = value === undefined ? NaN : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Inverse of extraFieldsOf; values that don't make sense are dropped
+const readExtraFields = (fields: Map<string, string>): Partial<Place> => {
+  const startTime = fields.get('startTime');
+  const imageUrl = fields.get('imageUrl');
+  return {
+    startTime: startTime && /^\d{2}:\d{2}$/.test(startTime) ? startTime : undefined,
+    durationMinutes: numberOrUndefined(fields.get('durationMinutes')),
+    approximate: fields.get('approximate') === 'true' || undefined,
+    rating: numberOrUndefined(fields.get('rating')),
+    mapsUri: fields.get('mapsUri') || undefined,
+    imageUrl: imageUrl && /^https?:/.test(imageUrl) ? imageUrl : undefined
+  };
+};
+
+const toCoordinates = (latitude: unknown, longitude: unknown): Coordinates | undefined => {
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  if (latitude === null || longitude === null || latitude === '' || longitude === '') return undefined;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  return { latitude: lat, longitude: lng };
+};
+
+// Leaves out undefined fields, so imported places look like ones made in the app
+const toPlace = (fields: Omit<Place, 'id'>): Place => {
+  const defined: object = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+  return { id: generateId(), ...defined } as Place;
+};
+
+// --- Export ---
+
+const routeName = (guide: Guide, day: GuideDay, index: number) =>
+  guide.days.length > 1 ? `${dayHeading(day, index)} route` : `${guide.title} route`;
+
+export const exportGeoJson = (guide: Guide): string => {
+  const isMultiDay = guide.days.length > 1;
+  const features = guide.days.flatMap((day, dayIdx) => {
+    const located = day.places.filter(p => p.coordinates);
+    const dayFeatures: object[] = day.places.map(place => ({
+      type: 'Feature',
+      geometry: place.coordinates
+        ? { type: 'Point', coordinates: [place.coordinates.longitude, place.coordinates.latitude] }
+        : null,
+      properties: {
+        name: place.name,
+        description: place.description,
+        ...(isMultiDay ? { day: dayIdx + 1 } : {}),
+        ...(place.address ? { address: place.address } : {}),
+        ...Object.fromEntries(extraFieldsOf(place).map(([name]) => [name, place[name as keyof Place]]))
+      }
+    }));
+    if (located.length >= 2) {
+      dayFeatures.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: located.map(p => [p.coordinates!.longitude, p.coordinates!.latitude]) },
+        properties: { name: routeName(guide, day, dayIdx), route: true, ...(isMultiDay ? { day: dayIdx + 1 } : {}) }
+      });
+    }
+    return dayFeatures;
+  });
+  // Foreign member with what the features can't hold: the days' titles and notes
+  const days = isMultiDay ? { days: guide.days.map(day => ({ title: day.title, ...(day.notes ? { notes: day.notes } : {}) })) } : {};
+  return JSON.stringify({ type: 'FeatureCollection', name: guide.title, ...days, features }, null, 2);
+};
+
+const indent = (text: string, spaces: number) => text.replace(/^(?=.)/gm, ' '.repeat(spaces));
+
+const kmlPlacemarks = (guide: Guide, day: GuideDay, dayIdx: number): string[] => {
+  const located = day.places.filter(p => p.coordinates);
+  const placemarks = day.places.map(place => {
+    const extras = extraFieldsOf(place);
+    return `<Placemark>
+  <name>${escapeHtml(place.name)}</name>
+  <description>${escapeHtml(place.description)}</description>${place.address ? `
+  <address>${escapeHtml(place.address)}</address>` : ''}${extras.length ? `
+  <ExtendedData>
+${extras.map(([name, value]) => `    <Data name="${name}"><value>${escapeHtml(value)}</value></Data>`).join('\n')}
+  </ExtendedData>` : ''}${place.coordinates ? `
+  <Point><coordinates>${place.coordinates.longitude},${place.coordinates.latitude}</coordinates></Point>` : ''}
+</Placemark>`;
+  });
+  if (located.length >= 2) {
+    placemarks.push(`<Placemark>
+  <name>${escapeHtml(routeName(guide, day, dayIdx))}</name>
+  <LineString>
+    <tessellate>1</tessellate>
+    <coordinates>${located.map(p => `${p.coordinates!.longitude},${p.coordinates!.latitude}`).join(' ')}</coordinates>
+  </LineString>
+</Placemark>`);
+  }
+  return placemarks;
+};
+
+export const exportKml = (guide: Guide): string => {
+  const content = guide.days.length > 1
+    ? guide.days.map((day, dayIdx) => `<Folder>
+  <name>${escapeHtml(day.title)}</name>${day.notes ? `
+  <description>${escapeHtml(day.notes)}</description>` : ''}
+${indent(kmlPlacemarks(guide, day, dayIdx).join('\n'), 2)}
+</Folder>`)
+    : kmlPlacemarks(guide, guide.days[0], 0);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="${KML_NAMESPACE}">
+  <Document>
+    <name>${escapeHtml(guide.title)}</name>
+${indent(content.join('\n'), 4)}
+  </Document>
+</kml>
+`;
+};
+
+// GPX has no place without a position, so unlocated stops are left out
+export const exportGpx = (guide: Guide): string => {
+  const isMultiDay = guide.days.length > 1;
+  const position = (coordinates: Coordinates) => `lat="${coordinates.latitude}" lon="${coordinates.longitude}"`;
+  const waypoints = guide.days.flatMap((day, dayIdx) => day.places.filter(p => p.coordinates).map(place => {
+    const extras: [string, string][] = [
+      ...(isMultiDay ? [['day', String(dayIdx + 1)] as [string, string]] : []),
+      ...(place.address ? [['address', place.address] as [string, string]] : []),
+      ...extraFieldsOf(place)
+    ];
+    return `  <wpt ${position(place.coordinates!)}>
+    <name>${escapeHtml(place.name)}</name>
+    <desc>${escapeHtml(place.description)}</desc>${extras.length ? `
+    <extensions>
+${extras.map(([name, value]) => `      <adt:${name}>${escapeHtml(value)}</adt:${name}>`).join('\n')}
+    </extensions>` : ''}
+  </wpt>`;
+  }));
+  // One route per day, in visiting order; a multi-day guide keeps every day's route, even an empty one
+  const routes = guide.days.flatMap(day => {
+    const routePoints = day.places.filter(p => p.coordinates)
+      .map(place => `    <rtept ${position(place.coordinates!)}><name>${escapeHtml(place.name)}</name></rtept>`);
+    if (!isMultiDay && routePoints.length === 0) return [];
+    return [`  <rte>
+    <name>${escapeHtml(isMultiDay ? day.title : guide.title)}</name>${isMultiDay && day.notes ? `
+    <desc>${escapeHtml(day.notes)}</desc>` : ''}${routePoints.length ? `
+${routePoints.join('\n')}` : ''}
+  </rte>`];
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="A Day Today" xmlns="${GPX_NAMESPACE}" xmlns:adt="${PLACE_NAMESPACE}">
+  <metadata>
+    <name>${escapeHtml(guide.title)}</name>
+  </metadata>
+${[...waypoints, ...routes].join('\n')}
+</gpx>
+`;
+};
+
+const EXPORTERS: Record<GeoFormat, (guide: Guide) => string> = { geojson: exportGeoJson, kml: exportKml, gpx: exportGpx };
+
+// A walk along the guide as a GPX track, with a timestamp on every point
+export const exportWalkGpx = (guide: Guide, walk: GuideWalk): string => `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="A Day Today" xmlns="${GPX_NAMESPACE}">
+  <metadata>
+    <name>${escapeHtml(guide.title)}</name>
+    <time>${walk.startedAt}</time>
+  </metadata>
+  <trk>
+    <name>${escapeHtml(guide.title)}</name>
+    <trkseg>
+${walk.track.map(p => `      <trkpt lat="${p.latitude}" lon="${p.longitude}"><time>${new Date(p.timestamp).toISOString()}</time></trkpt>`).join('\n')}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+
+export const downloadWalkGpx = (guide: Guide, walk: GuideWalk) =>
+  downloadBlob(new Blob([exportWalkGpx(guide, walk)], { type: FILE_TYPES.gpx.mimeType }), guideFileName(guide, `walk-${walk.startedAt.slice(0, 10)}.gpx`));
+
+// The file leaves the app, so private places are blurred as when publishing
+export const downloadGuideAs = (guide: Guide, format: GeoFormat) => {
+  const { extension, mimeType } = FILE_TYPES[format];
+  downloadBlob(new Blob([EXPORTERS[format](applyLocationPrivacy(guide))], { type: mimeType }), guideFileName(guide, extension));
+};
+
+// --- Import ---
+
+/**
+ * Sorts places into the days they are numbered with (1 = first day); unnumbered
+ * places go to the first day. `declared` are the days the file lists up front,
+ * kept even when no place refers to them.
+ */
+const groupIntoDays = (entries: { day?: unknown; place: Place }[], declared: Omit<ImportedDay, 'places'>[] = []): ImportedDay[] => {
+  const days = new Map<number, ImportedDay>(declared.map((day, idx) => [idx + 1, { ...day, places: [] }]));
+  entries.forEach(({ day, place }) => {
+    const number = Number(day);
+    const key = Number.isInteger(number) && number >= 1 ? number : 1;
+    if (!days.has(key)) days.set(key, { places: [] });
+    days.get(key)!.places.push(place);
+  });
+  return [...days.entries()].sort(([a], [b]) => a - b).map(([, day]) => day);
+};
+
+const stringOrUndefined = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+const parseGeoJson = (text: string): ImportedGuide => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid GeoJSON.");
+  }
+  const features: any[] = data?.type === 'FeatureCollection' && Array.isArray(data.features)
+    ? data.features
+    : data?.type === 'Feature' ? [data] : [];
+
+  const entries = features.flatMap(feature => {
+    const properties = feature?.properties || {};
+    const geometry = feature?.geometry;
+    // Lines and areas (our own routes included) aren't stops
+    if (geometry && geometry.type !== 'Point') return [];
+    const [longitude, latitude] = Array.isArray(geometry?.coordinates) ? geometry.coordinates : [];
+    const coordinates = geometry ? toCoordinates(latitude, longitude) : undefined;
+    if (geometry && !coordinates) return [];
+    const name = properties.name ?? properties.title;
+    if (!coordinates && !name) return [];
+
+    const fields = new Map<string, string>(
+      Object.entries(properties).flatMap(([key, value]) => (value === null || typeof value === 'object' ? [] : [[key, String(value)]]))
+    );
+    return [{
+      day: properties.day,
+      place: toPlace({
+        name: name ? String(name) : '',
+        description: String(properties.description ?? properties.desc ?? ''),
+        coordinates,
+        address: fields.get('address') || undefined,
+        ...readExtraFields(fields)
+      })
+    }];
+  });
+  const declared = Array.isArray(data?.days)
+    ? data.days.map((day: any) => ({ title: stringOrUndefined(day?.title), notes: stringOrUndefined(day?.notes) }))
+    : [];
+  return { title: stringOrUndefined(data?.name), days: groupIntoDays(entries, declared) };
+};
+
+// Namespace-agnostic, so files from any tool (and any prefix) read the same
+const childElements = (element: Element, localName?: string): Element[] =>
+  Array.from(element.childNodes).filter((node): node is Element =>
+    node.nodeType === 1 && (!localName || (node as Element).localName === localName));
+
+const childText = (element: Element, localName: string): string | undefined =>
+  childElements(element, localName)[0]?.textContent?.trim() || undefined;
+
+const descendants = (root: Document | Element, localName: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', localName));
+
+// Map apps often write KML descriptions as HTML; plain text that merely contains "<" is left alone
+const plainText = (value: string): string =>
+  /<(a|b|i|p|br|div|span|strong|em|img|ul|ol|li|table|h[1-6])\b[^>]*>/i.test(value)
+    ? (new DOMParser().parseFromString(value, 'text/html').body.textContent || '').trim()
+    : value;
+
+const parseXml = (text: string, formatName: string): Document => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`This file isn't valid ${formatName}.`);
+  }
+  return document;
+};
+
+const parseKmlPlacemark = (placemark: Element): Place | null => {
+  const hasGeometry = childElements(placemark).some(child => ['LineString', 'Polygon', 'MultiGeometry', 'Track'].includes(child.localName));
+  if (hasGeometry) return null;
+  const point = childElements(placemark, 'Point')[0];
+  const [longitude, latitude] = (point && childText(point, 'coordinates')?.split(/\s+/)[0].split(',')) || [];
+  const coordinates = point ? toCoordinates(latitude, longitude) : undefined;
+  const name = childText(placemark, 'name');
+  if (!coordinates && !name) return null;
+
+  const fields = new Map<string, string>();
+  descendants(placemark, 'Data').forEach(data => {
+    const key = data.getAttribute('name');
+    const value = childText(data, 'value');
+    if (key && value !== undefined) fields.set(key, value);
+  });
+  return toPlace({
+    name: name || '',
+    description: plainText(childText(placemark, 'description') || ''),
+    coordinates,
+    address: childText(placemark, 'address'),
+    ...readExtraFields(fields)
+  });
+};
+
+// Innermost folders are days when there are several of them; loose placemarks come first
+const parseKml = (text: string): ImportedGuide => {
+  const document = parseXml(text, 'KML');
+  const folders = descendants(document, 'Folder').filter(folder => descendants(folder, 'Folder').length === 0);
+  const groups = new Map<Element | null, ImportedDay>([[null, { places: [] }]]);
+  folders.forEach(folder => groups.set(folder, {
+    title: childText(folder, 'name'),
+    notes: childText(folder, 'description') && plainText(childText(folder, 'description')!),
+    places: []
+  }));
+  descendants(document, 'Placemark').forEach(placemark => {
+    const place = parseKmlPlacemark(placemark);
+    if (!place) return;
+    let folder = placemark.parentNode as Element | null;
+    while (folder && !groups.has(folder)) folder = folder.parentNode as Element | null;
+    groups.get(folder)!.places.push(place);
+  });
+
+  const kmlDocument = descendants(document, 'Document')[0];
+  const title = kmlDocument && childText(kmlDocument, 'name');
+  const [loose, ...days] = [...groups.values()];
+  if (days.length < 2) return { title, days: [{ places: [...groups.values()].flatMap(day => day.places) }] };
+  return { title, days: loose.places.length ? [loose, ...days] : days };
+};
+
+const parseGpxPoint = (point: Element): { day?: string; place: Place } | null => {
+  const coordinates = toCoordinates(point.getAttribute('lat'), point.getAttribute('lon'));
+  if (!coordinates) return null;
+  const fields = new Map<string, string>();
+  childElements(point, 'extensions').forEach(extensions =>
+    childElements(extensions).forEach(field => fields.set(field.localName, field.textContent?.trim() || '')));
+  return {
+    day: fields.get('day'),
+    place: toPlace({
+      name: childText(point, 'name') || '',
+      description: childText(point, 'desc') || childText(point, 'cmt') || '',
+      coordinates,
+      address: fields.get('address') || undefined,
+      ...readExtraFields(fields)
+    })
+  };
+};
+
+/**
+ * Waypoints are the stops, sorted into days by our own day extension, with the
+ * routes naming those days. A file with routes only (as many route planners
+ * write) gets a day per route instead.
+ */
+const parseGpx = (text: string): ImportedGuide => {
+  const document = parseXml(text, 'GPX');
+  const metadata = descendants(document, 'metadata')[0];
+  const title = metadata && childText(metadata, 'name');
+  const routes = descendants(document, 'rte');
+  const routeDays = routes.map(route => ({ title: childText(route, 'name'), notes: childText(route, 'desc') }));
+
+  const waypoints = descendants(document, 'wpt').flatMap(point => parseGpxPoint(point) || []);
+  if (waypoints.length > 0) {
+    const hasDays = waypoints.some(entry => entry.day !== undefined);
+    return { title, days: groupIntoDays(waypoints, hasDays ? routeDays : []) };
+  }
+
+  const days = routes.map((route, idx) => ({
+    ...(routes.length > 1 ? routeDays[idx] : {}),
+    places: childElements(route, 'rtept').flatMap(point => parseGpxPoint(point)?.place || [])
+  }));
+  return { title, days };
+};
+
+const detectFormat = (text: string, fileName: string): GeoFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  if (extension === 'kml') return 'kml';
+  if (extension === 'gpx') return 'gpx';
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (/<kml[\s>]/.test(start)) return 'kml';
+  if (/<gpx[\s>]/.test(start)) return 'gpx';
+  return null;
+};
+
+const PARSERS: Record<GeoFormat, (text: string) => ImportedGuide> = { geojson: parseGeoJson, kml: parseKml, gpx: parseGpx };
+
+// Reads a GeoJSON, KML or GPX file into new places (fresh ids, ready to add to a guide)
+export const parseGeoFile = (text: string, fileName: string): ImportedGuide => {
+  const format = detectFormat(text, fileName);
+  if (!format) throw new Error('Only GeoJSON, KML and GPX files can be imported.');
+  const imported = PARSERS[format](text);
+  if (imported.days.every(day => day.places.length === 0)) throw new Error('No places found in this file.');
+  return imported;
+};
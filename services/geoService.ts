@@ -1,4 +1,5 @@
-import { Coordinates } from "../types";
+import { Coordinates, Place, PositionFix } from "../types";
+import { formatLocation, reverseGeocode } from "./reverseGeocoder";
 
 export const getCurrentPosition = (): Promise<Coordinates> => {
   return new Promise((resolve, reject) => {
@@ -21,13 +22,59 @@ export const getCurrentPosition = (): Promise<Coordinates> => {
   });
 };
 
+/**
+ * Follows the device's position, e.g. during a walk. Returns the function that
+ * stops watching.
+ */
+export const watchPosition = (
+  onPosition: (fix: PositionFix) => void,
+  onError: (error: GeolocationPositionError | Error) => void
+): (() => void) => {
+  if (!navigator.geolocation) {
+    onError(new Error("Geolocation not supported"));
+    return () => {};
+  }
+
+  const watchId = navigator.geolocation.watchPosition(
+    (position) => {
+      onPosition({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        timestamp: position.timestamp,
+      });
+    },
+    onError,
+    // Walking needs GPS precision and fresh fixes
+    { enableHighAccuracy: true, maximumAge: 5000 }
+  );
+  return () => navigator.geolocation.clearWatch(watchId);
+};
+
+export const UNKNOWN_CITY = "Unknown City";
+
+// "Lisbon, Portugal" for a point in or near Lisbon, UNKNOWN_CITY when no city is near
 export const getCityNameFromCoords = async (coords: Coordinates): Promise<string> => {
-  // In a real app, use a reverse geocoding API. 
-  // For this demo, we'll approximate or use Gemini if needed, 
-  // but let's stick to a simple mock to avoid another API key dependency if possible,
-  // OR we can just return a generic "Your Location" until the user defines it.
-  
-  // However, since we have Gemini, let's ask it!
-  // This is a creative use of the tool.
-  return "Unknown City"; // We will let the user or Gemini Chat determine context
+  try {
+    const location = await reverseGeocode(coords);
+    return location ? formatLocation(location) : UNKNOWN_CITY;
+  } catch (e) {
+    console.error("Reverse geocoding failed", e);
+    return UNKNOWN_CITY;
+  }
+};
+
+/**
+ * The city a set of places belongs to: the most common one among them, or null
+ * when none of them has coordinates near a known city.
+ */
+export const getLocationNameForPlaces = async (places: Place[]): Promise<string | null> => {
+  const located = places.filter(p => p.coordinates);
+  const names = await Promise.all(located.map(p => reverseGeocode(p.coordinates!).then(l => (l ? formatLocation(l) : null))));
+
+  const counts = new Map<string, number>();
+  names.forEach(name => { if (name) counts.set(name, (counts.get(name) || 0) + 1); });
+  let best: string | null = null;
+  counts.forEach((count, name) => { if (!best || count > counts.get(best)!) best = name; });
+  return best;
 };
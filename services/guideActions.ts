@@ -0,0 +1,176 @@
+import { Coordinates, GuideChange, GuideDay, Place } from "../types";
+import { createGuideDay, generateId } from "./guideRepository";
+import { addPlacesToDay, allPlaces, mapPlaces, movePlace, withoutPlace } from "./guideDays";
+import { normalizeTags } from "./guideTags";
+
+// The part of a guide the AI editor is allowed to change
+export interface GuideDraftState {
+  title: string;
+  tags: string[];
+  days: GuideDay[];
+  activeDayId: string; // where new places go unless the model names a day
+}
+
+export interface GuideActionResult {
+  state: GuideDraftState;
+  // Sent back to the model as the function response
+  response: Record<string, unknown>;
+  change?: GuideChange;
+}
+
+const readString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const readCoordinates = (args: Record<string, unknown>): Coordinates | undefined => {
+  const latitude = Number(args.latitude);
+  const longitude = Number(args.longitude);
+  if (args.latitude === undefined || args.longitude === undefined) return undefined;
+  if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+  return { latitude, longitude };
+};
+
+const readRating = (value: unknown): number | undefined => {
+  const rating = Number(value);
+  return value !== undefined && rating >= 1 && rating <= 5 ? Math.round(rating * 10) / 10 : undefined;
+};
+
+const findPlace = (places: Place[], args: Record<string, unknown>): Place | undefined => {
+  const placeId = readString(args.placeId);
+  const name = readString(args.name)?.toLowerCase();
+  return places.find(p => p.id === placeId) || (name ? places.find(p => p.name.toLowerCase() === name) : undefined);
+};
+
+// Lets the model recover when it refers to a place that was renamed or deleted by the user
+const describePlaces = (days: GuideDay[]) =>
+  days.flatMap((day, idx) => day.places.map(p => ({ placeId: p.id, name: p.name, day: idx + 1 })));
+
+/**
+ * The day a tool call refers to by number (1 = first day); one past the last day
+ * starts a new one. Without a number it's the day the user is working on.
+ */
+const resolveDay = (state: GuideDraftState, value: unknown): { days: GuideDay[]; dayId: string } | null => {
+  if (value === undefined) {
+    const active = state.days.find(d => d.id === state.activeDayId) || state.days[state.days.length - 1];
+    return { days: state.days, dayId: active.id };
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > state.days.length + 1) return null;
+  if (number <= state.days.length) return { days: state.days, dayId: state.days[number - 1].id };
+  const day = createGuideDay();
+  return { days: [...state.days, day], dayId: day.id };
+};
+
+const dayRangeError = (state: GuideDraftState) =>
+  `The guide has ${state.days.length} day${state.days.length === 1 ? '' : 's'}; use a day from 1 to ${state.days.length + 1} (the last starts a new day).`;
+
+/**
+ * Applies one editor tool call to the draft. Unknown tools and bad arguments are reported
+ * back to the model as errors instead of throwing, so the turn can continue.
+ * `photo` is attached to a newly added place, e.g. when the turn was started by an upload.
+ */
+export const applyGuideAction = (
+  state: GuideDraftState,
+  name: string,
+  args: Record<string, unknown> = {},
+  photo?: { imageUrl: string; coordinates?: Coordinates }
+): GuideActionResult => {
+  switch (name) {
+    case 'addPlace': {
+      const placeName = readString(args.name);
+      if (!placeName) return { state, response: { error: 'A place needs a name.' } };
+
+      const target = resolveDay(state, args.day);
+      if (!target) return { state, response: { error: dayRangeError(state) } };
+
+      const duplicate = allPlaces(state.days).find(p => p.name.toLowerCase() === placeName.toLowerCase());
+      if (duplicate) {
+        return { state, response: { error: 'This place is already in the guide. Use updatePlace to change it.', placeId: duplicate.id } };
+      }
+
+      const place: Place = {
+        id: generateId(),
+        name: placeName,
+        description: readString(args.description) || '',
+        address: readString(args.address),
+        coordinates: readCoordinates(args) || photo?.coordinates,
+        rating: readRating(args.rating),
+        // The AI's own estimate until a Maps lookup replaces it, see placeGrounding
+        ratingSource: readRating(args.rating) !== undefined ? 'model' : undefined,
+        imageUrl: photo?.imageUrl || `https://picsum.photos/seed/${placeName.replace(/\s/g, '')}/400/600`
+      };
+      return {
+        state: { ...state, days: addPlacesToDay(target.days, target.dayId, [place]) },
+        response: { ok: true, placeId: place.id },
+        change: { kind: 'added', placeId: place.id, summary: `Added ${place.name}` }
+      };
+    }
+
+    case 'updatePlace': {
+      const target = findPlace(allPlaces(state.days), args);
+      if (!target) return { state, response: { error: 'No such place in the guide.', places: describePlaces(state.days) } };
+      const destination = args.day === undefined ? null : resolveDay(state, args.day);
+      if (args.day !== undefined && !destination) return { state, response: { error: dayRangeError(state) } };
+
+      const updates: Partial<Place> = {};
+      const newName = readString(args.newName);
+      if (newName) updates.name = newName;
+      const description = readString(args.description);
+      if (description) updates.description = description;
+      const address = readString(args.address);
+      if (address) updates.address = address;
+      const coordinates = readCoordinates(args);
+      if (coordinates) updates.coordinates = coordinates;
+      const rating = readRating(args.rating);
+      if (rating) Object.assign(updates, { rating, ratingSource: 'model' });
+
+      const fields = [...Object.keys(updates), ...(destination ? ['day'] : [])];
+      if (fields.length === 0) return { state, response: { error: 'Nothing to update.' } };
+
+      const updated = mapPlaces(destination?.days || state.days, p => p.id === target.id ? { ...p, ...updates } : p);
+      return {
+        state: { ...state, days: destination ? movePlace(updated, target.id, destination.dayId, Infinity) : updated },
+        response: { ok: true, placeId: target.id },
+        change: {
+          kind: 'updated',
+          placeId: target.id,
+          summary: fields.length === 1 && destination
+            ? `Moved ${target.name} to day ${args.day}`
+            : `Updated ${updates.name || target.name} (${fields.join(', ')})`
+        }
+      };
+    }
+
+    case 'removePlace': {
+      const target = findPlace(allPlaces(state.days), args);
+      if (!target) return { state, response: { error: 'No such place in the guide.', places: describePlaces(state.days) } };
+      return {
+        state: { ...state, days: withoutPlace(state.days, target.id) },
+        response: { ok: true },
+        change: { kind: 'removed', placeId: target.id, summary: `Removed ${target.name}` }
+      };
+    }
+
+    case 'setGuideTitle': {
+      const title = readString(args.title);
+      if (!title) return { state, response: { error: 'The title cannot be empty.' } };
+      return {
+        state: { ...state, title },
+        response: { ok: true },
+        change: { kind: 'retitled', summary: `Renamed guide to "${title}"` }
+      };
+    }
+
+    case 'setGuideTags': {
+      if (!Array.isArray(args.tags)) return { state, response: { error: '"tags" must be a list of strings.' } };
+      const tags = normalizeTags(args.tags.filter((t): t is string => typeof t === 'string'));
+      return {
+        state: { ...state, tags },
+        response: { ok: true, tags },
+        change: { kind: 'tagged', summary: tags.length > 0 ? `Tagged the guide ${tags.join(', ')}` : 'Removed the tags' }
+      };
+    }
+
+    default:
+      return { state, response: { error: `Unknown tool: ${name}` } };
+  }
+};
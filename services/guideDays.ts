@@ -0,0 +1,61 @@
+import { GuideDay, Place } from "../types";
+import { moveItem } from "./utils";
+
+// Markers, routes and badges of each day; the first matches the brand colour of single-day guides
+const DAY_COLORS = ['#8e6a56', '#3f7d6e', '#c2703d', '#5b6fa8', '#a34f6e', '#6b8e3d', '#7a5ea8'];
+
+export const dayColor = (index: number): string => DAY_COLORS[index % DAY_COLORS.length];
+
+// "Day 2: Sintra", or just "Day 2" for an untitled day
+export const dayHeading = (day: GuideDay, index: number): string => {
+  const label = `Day ${index + 1}`;
+  return !day.title.trim() || day.title.trim() === label ? label : `${label}: ${day.title.trim()}`;
+};
+
+// Every stop of the guide, day after day
+export const allPlaces = (days: GuideDay[]): Place[] => days.flatMap(day => day.places);
+
+export const mapPlaces = (days: GuideDay[], update: (place: Place) => Place): GuideDay[] =>
+  days.map(day => ({ ...day, places: day.places.map(update) }));
+
+export const withoutPlace = (days: GuideDay[], placeId: string): GuideDay[] =>
+  days.map(day => (day.places.some(p => p.id === placeId) ? { ...day, places: day.places.filter(p => p.id !== placeId) } : day));
+
+export const addPlacesToDay = (days: GuideDay[], dayId: string, places: Place[]): GuideDay[] =>
+  days.map(day => (day.id === dayId ? { ...day, places: [...day.places, ...places] } : day));
+
+/**
+ * Moves a place to position `index` of another day, or of its own (where `index`
+ * is its position after the move, as with moveItem).
+ */
+export const movePlace = (days: GuideDay[], placeId: string, dayId: string, index: number): GuideDay[] => {
+  const place = allPlaces(days).find(p => p.id === placeId);
+  const target = days.find(day => day.id === dayId);
+  if (!place || !target) return days;
+
+  const currentIndex = target.places.findIndex(p => p.id === placeId);
+  if (currentIndex !== -1) {
+    const newIndex = Math.min(index, target.places.length - 1);
+    if (newIndex === currentIndex) return days;
+    return days.map(day => (day.id === dayId ? { ...day, places: moveItem(day.places, currentIndex, newIndex) } : day));
+  }
+
+  return withoutPlace(days, placeId).map(day => {
+    if (day.id !== dayId) return day;
+    const places = [...day.places];
+    places.splice(Math.min(index, places.length), 0, place);
+    return { ...day, places };
+  });
+};
+
+// A removed day's places join the day before it (or after it, for the first day)
+export const removeDay = (days: GuideDay[], dayId: string): GuideDay[] => {
+  const index = days.findIndex(day => day.id === dayId);
+  if (index === -1 || days.length === 1) return days;
+  const removed = days[index].places;
+  const heirId = days[index === 0 ? 1 : index - 1].id;
+  return days.filter(day => day.id !== dayId).map(day => {
+    if (day.id !== heirId) return day;
+    return { ...day, places: index === 0 ? [...removed, ...day.places] : [...day.places, ...removed] };
+  });
+};
@@ -0,0 +1,193 @@
+import { ChatTranscript, Guide, GuideDay, GuideWalk, Place, StoredPhoto, User } from "../types";
+import { dataUriToBlob } from "./utils";
+
+const DB_NAME = 'a-day-today';
+const DB_VERSION = 4;
+const GUIDE_STORE = 'guides';
+const CHAT_STORE = 'chats';
+const PHOTO_STORE = 'photos';
+
+// Image URLs that point into PHOTO_STORE rather than at the web
+export const PHOTO_URL_PREFIX = 'photo:';
+
+// Older messages only matter to the model, which gets a summary of them instead
+const MAX_STORED_MESSAGES = 200;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Before version 4 a guide was a single day, with its places directly on the guide
+type LegacyGuide = Omit<Guide, 'days'> & { places?: Place[]; days?: GuideDay[] };
+
+const migrateLegacyGuide = ({ places, ...guide }: LegacyGuide): Guide => ({
+  ...guide,
+  days: guide.days || [{ ...createGuideDay(), places: places || [] }]
+});
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB not supported"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Each schema version only adds what it needs, so older databases upgrade step by step
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const guides = db.createObjectStore(GUIDE_STORE, { keyPath: 'id' });
+        guides.createIndex('status', 'status');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(CHAT_STORE, { keyPath: 'guideId' });
+      }
+      if (event.oldVersion < 3) {
+        const photos = db.createObjectStore(PHOTO_STORE, { keyPath: 'id' });
+        photos.createIndex('guideId', 'guideId');
+      }
+      // Guides are rewritten in place, in the same upgrade transaction
+      if (event.oldVersion < 4) {
+        const cursorRequest = request.transaction!.objectStore(GUIDE_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          cursor.update(migrateLegacyGuide(cursor.value));
+          cursor.continue();
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const runInStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const generateId = (): string => Math.random().toString(36).substr(2, 9);
+
+export const createGuideDay = (title = ''): GuideDay => ({ id: generateId(), title, places: [] });
+
+export const createDraftGuide = (author: User, id: string = generateId()): Guide => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    title: 'Untitled Guide',
+    author,
+    days: [createGuideDay()],
+    coverImage: 'https://picsum.photos/seed/draft/800/600',
+    locationName: 'Draft Location',
+    createdAt: now,
+    updatedAt: now,
+    status: 'draft'
+  };
+};
+
+export const getGuide = async (id: string): Promise<Guide | null> => {
+  const guide = await runInStore<Guide | undefined>(GUIDE_STORE, 'readonly', store => store.get(id));
+  return guide || null;
+};
+
+// Most recently edited first
+export const listGuides = async (status?: Guide['status']): Promise<Guide[]> => {
+  const guides = await runInStore<Guide[]>(GUIDE_STORE, 'readonly', store =>
+    status ? store.index('status').getAll(status) : store.getAll()
+  );
+  return guides.sort((a, b) => (b.updatedAt || b.createdAt).localeCompare(a.updatedAt || a.createdAt));
+};
+
+export const saveGuide = async (guide: Guide): Promise<Guide> => {
+  const stored: Guide = { ...guide, updatedAt: new Date().toISOString() };
+  await runInStore(GUIDE_STORE, 'readwrite', store => store.put(stored));
+  return stored;
+};
+
+// Author of the guides made before there were accounts; the first account made in this browser takes them over
+export const LEGACY_AUTHOR_ID = 'u1';
+
+// Puts `author` on every guide by `authorId`, e.g. after a profile change; not an edit, so updatedAt stays
+export const setGuidesAuthor = async (authorId: string, author: User): Promise<void> => {
+  const guides = (await listGuides()).filter(g => g.author.id === authorId);
+  for (const guide of guides) {
+    await runInStore(GUIDE_STORE, 'readwrite', store => store.put({ ...guide, author }));
+  }
+};
+
+// Walking a guide is not an edit, so updatedAt stays
+export const addGuideWalk = async (guideId: string, walk: GuideWalk): Promise<Guide> => {
+  const guide = await getGuide(guideId);
+  if (!guide) throw new Error("The guide no longer exists");
+  const stored: Guide = { ...guide, walks: [...(guide.walks || []), walk] };
+  await runInStore(GUIDE_STORE, 'readwrite', store => store.put(stored));
+  return stored;
+};
+
+export const deleteGuide = async (id: string): Promise<void> => {
+  await runInStore(GUIDE_STORE, 'readwrite', store => store.delete(id));
+  await runInStore(CHAT_STORE, 'readwrite', store => store.delete(id));
+  const photoIds = await runInStore<IDBValidKey[]>(PHOTO_STORE, 'readonly', store => store.index('guideId').getAllKeys(id));
+  for (const photoId of photoIds) {
+    await runInStore(PHOTO_STORE, 'readwrite', store => store.delete(photoId));
+  }
+};
+
+export const getChatTranscript = async (guideId: string): Promise<ChatTranscript | null> => {
+  const transcript = await runInStore<ChatTranscript | undefined>(CHAT_STORE, 'readonly', store => store.get(guideId));
+  return transcript || null;
+};
+
+export const saveChatTranscript = async (transcript: Omit<ChatTranscript, 'updatedAt'>): Promise<void> => {
+  const stored: ChatTranscript = {
+    ...transcript,
+    messages: transcript.messages.slice(-MAX_STORED_MESSAGES),
+    updatedAt: new Date().toISOString()
+  };
+  await runInStore(CHAT_STORE, 'readwrite', store => store.put(stored));
+};
+
+export const isStoredPhotoUrl = (url?: string): boolean => !!url?.startsWith(PHOTO_URL_PREFIX);
+
+// Every save gets its own key; upload ids come from the file name and can repeat
+export const savePhoto = async (photo: Omit<StoredPhoto, 'id' | 'guideId' | 'createdAt'>, guideId: string): Promise<string> => {
+  const stored: StoredPhoto = {
+    id: generateId(),
+    guideId,
+    web: photo.web,
+    thumbnail: photo.thumbnail,
+    width: photo.width,
+    height: photo.height,
+    createdAt: new Date().toISOString()
+  };
+  await runInStore(PHOTO_STORE, 'readwrite', store => store.put(stored));
+  return `${PHOTO_URL_PREFIX}${stored.id}`;
+};
+
+/**
+ * The image behind a URL the app made itself: a stored photo or an inline data URI.
+ * Null for web URLs, and for stored photos that no longer exist.
+ */
+export const loadImageBlob = async (url: string, rendition: 'web' | 'thumbnail' = 'web'): Promise<Blob | null> => {
+  if (url.startsWith('data:')) return dataUriToBlob(url);
+  if (!isStoredPhotoUrl(url)) return null;
+  const photo = await runInStore<StoredPhoto | undefined>(PHOTO_STORE, 'readonly', store => store.get(url.slice(PHOTO_URL_PREFIX.length)));
+  return photo ? photo[rendition] : null;
+};
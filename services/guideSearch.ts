@@ -0,0 +1,183 @@
+import { Coordinates, Guide } from "../types";
+import { allPlaces } from "./guideDays";
+import { foldText, tagKey } from "./guideTags";
+import { distanceKm } from "./utils";
+
+/**
+ * Search over the guides stored in this browser: a small inverted index over
+ * titles, tags, place names and descriptions, plus the feed's filters and sort
+ * orders. Everything runs client side.
+ */
+
+export type GuideSort = 'relevance' | 'recent' | 'distance';
+
+export interface GuideQuery {
+  text: string;
+  city?: string;
+  tag?: string;
+  authorId?: string;
+  sort: GuideSort;
+}
+
+export interface GuideSearchIndex {
+  guides: Guide[];
+  // token -> guide id -> weight of the best field it appears in
+  postings: Map<string, Map<string, number>>;
+}
+
+// A hit in the title or tags counts more than one in a description
+const FIELD_WEIGHTS = { title: 3, tags: 3, location: 2, placeName: 2, description: 1 };
+
+export const tokenize = (text: string): string[] =>
+  foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export const buildSearchIndex = (guides: Guide[]): GuideSearchIndex => {
+  const postings = new Map<string, Map<string, number>>();
+  const add = (guideId: string, text: string | undefined, weight: number) => {
+    if (!text) return;
+    tokenize(text).forEach(token => {
+      const entry = postings.get(token) || new Map<string, number>();
+      entry.set(guideId, Math.max(entry.get(guideId) || 0, weight));
+      postings.set(token, entry);
+    });
+  };
+
+  guides.forEach(guide => {
+    add(guide.id, guide.title, FIELD_WEIGHTS.title);
+    guide.tags?.forEach(tag => add(guide.id, tag, FIELD_WEIGHTS.tags));
+    add(guide.id, guide.locationName, FIELD_WEIGHTS.location);
+    allPlaces(guide.days).forEach(place => {
+      add(guide.id, place.name, FIELD_WEIGHTS.placeName);
+      add(guide.id, place.description, FIELD_WEIGHTS.description);
+    });
+    // Readers may search in the language they read the guide in
+    guide.translations?.forEach(t => {
+      add(guide.id, t.title, FIELD_WEIGHTS.title);
+      Object.values(t.places).forEach(p => {
+        add(guide.id, p.name, FIELD_WEIGHTS.placeName);
+        add(guide.id, p.description, FIELD_WEIGHTS.description);
+      });
+    });
+  });
+  return { guides, postings };
+};
+
+/**
+ * Scores the guides matching every word of the query, keyed by guide id. The
+ * last word also matches as a prefix, so results show up while typing.
+ * Returns null for an empty query.
+ */
+export const scoreGuides = (index: GuideSearchIndex, text: string): Map<string, number> | null => {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return null;
+
+  let scores: Map<string, number> | null = null;
+  tokens.forEach((token, i) => {
+    const isLast = i === tokens.length - 1;
+    const matches = new Map<string, number>();
+    index.postings.forEach((entry, term) => {
+      if (term !== token && !(isLast && term.startsWith(token))) return;
+      // A prefix hit counts less than the whole word
+      const factor = term === token ? 1 : 0.5;
+      entry.forEach((weight, id) => matches.set(id, Math.max(matches.get(id) || 0, weight * factor)));
+    });
+    const previous: Map<string, number> | null = scores;
+    scores = new Map();
+    matches.forEach((weight, id) => {
+      if (!previous) scores!.set(id, weight);
+      else if (previous.has(id)) scores!.set(id, previous.get(id)! + weight);
+    });
+  });
+  return scores;
+};
+
+// How far a guide is: to its nearest stop, or to the middle of all its stops
+export type DistanceMeasure = 'nearest' | 'centroid';
+
+// Guides further away than this are not "near" the reader
+export const NEARBY_RADIUS_KM = 50;
+
+const locatedPlaces = (guide: Guide) => allPlaces(guide.days).filter(p => p.coordinates);
+
+// The average position of the guide's located places; guides span a city, so a flat average is fine
+export const guideCentroid = (guide: Guide): Coordinates | null => {
+  const places = locatedPlaces(guide);
+  if (places.length === 0) return null;
+  return {
+    latitude: places.reduce((sum, p) => sum + p.coordinates!.latitude, 0) / places.length,
+    longitude: places.reduce((sum, p) => sum + p.coordinates!.longitude, 0) / places.length,
+  };
+};
+
+// Straight-line distance to the guide, null when none of its places has a location
+export const distanceToGuide = (guide: Guide, from: Coordinates, measure: DistanceMeasure = 'nearest'): number | null => {
+  if (measure === 'centroid') {
+    const centroid = guideCentroid(guide);
+    return centroid ? distanceKm(from, centroid) : null;
+  }
+  const distances = locatedPlaces(guide).map(p => distanceKm(from, p.coordinates!));
+  return distances.length > 0 ? Math.min(...distances) : null;
+};
+
+// The guides within `radiusKm`, nearest first
+export const rankGuidesByDistance = (
+  guides: Guide[],
+  from: Coordinates,
+  measure: DistanceMeasure = 'nearest',
+  radiusKm = NEARBY_RADIUS_KM
+): { guide: Guide; distanceKm: number }[] =>
+  guides
+    .map(guide => ({ guide, distanceKm: distanceToGuide(guide, from, measure) }))
+    .filter((r): r is { guide: Guide; distanceKm: number } => r.distanceKm !== null && r.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+// "0.8 km away", whole kilometres once it is far
+export const formatDistanceAway = (km: number): string =>
+  `${km < 10 ? km.toFixed(1) : Math.round(km)} km away`;
+
+const guideDate = (guide: Guide) => guide.publication?.publishedAt || guide.updatedAt || guide.createdAt;
+
+/**
+ * Filters the indexed guides by text, city, tag and author and sorts them.
+ * Sorting by distance needs `from`; without it, and for guides without a
+ * location, it falls back to the most recent first.
+ */
+export const searchGuides = (index: GuideSearchIndex, query: GuideQuery, from?: Coordinates | null): Guide[] => {
+  const scores = scoreGuides(index, query.text);
+  const results = index.guides.filter(guide =>
+    (!scores || scores.has(guide.id))
+    && (!query.city || guide.locationName === query.city)
+    && (!query.tag || guide.tags?.some(t => tagKey(t) === tagKey(query.tag!)))
+    && (!query.authorId || guide.author.id === query.authorId)
+  );
+
+  const byDate = (a: Guide, b: Guide) => guideDate(b).localeCompare(guideDate(a));
+  if (query.sort === 'relevance' && scores) {
+    return results.sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || byDate(a, b));
+  }
+  if (query.sort === 'distance' && from) {
+    const distances = new Map(results.map(g => [g.id, distanceToGuide(g, from)]));
+    return results.sort((a, b) => {
+      const da = distances.get(a.id) ?? Infinity;
+      const db = distances.get(b.id) ?? Infinity;
+      return da - db || byDate(a, b);
+    });
+  }
+  return results.sort(byDate);
+};
+
+// The values the feed can be filtered by, most used tags first
+export const guideFacets = (guides: Guide[]) => {
+  const tagCounts = new Map<string, { tag: string; count: number }>();
+  guides.forEach(g => g.tags?.forEach(tag => {
+    const key = tagKey(tag);
+    const entry = tagCounts.get(key) || { tag, count: 0 };
+    tagCounts.set(key, { ...entry, count: entry.count + 1 });
+  }));
+  const authors = new Map(guides.map(g => [g.author.id, g.author]));
+  return {
+    cities: [...new Set(guides.map(g => g.locationName))].sort((a, b) => a.localeCompare(b)),
+    tags: [...tagCounts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag)).map(t => t.tag),
+    authors: [...authors.values()].sort((a, b) => a.name.localeCompare(b.name)),
+  };
+};
@@ -0,0 +1,33 @@
+/**
+ * Tags describe the vibe of a guide ("Art & Coffee", "Nightlife"). They are free
+ * text; two tags that differ only in case, accents or spacing are the same tag.
+ */
+
+export const MAX_TAGS = 8;
+const MAX_TAG_LENGTH = 30;
+
+// Offered while tagging, the vibes the guide chat asks about
+export const SUGGESTED_TAGS = [
+  'Art & Coffee', 'Nightlife', 'Hidden Gems', 'Food', 'Architecture', 'History',
+  'Outdoors', 'Shopping', 'Family', 'Budget',
+];
+
+// Lowercase without accents, for comparing and searching
+export const foldText = (value: string): string =>
+  value.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase();
+
+export const tagKey = (tag: string): string => foldText(tag).replace(/\s+/g, ' ').trim();
+
+// Trimmed, without empty ones or duplicates, at most MAX_TAGS; the first spelling of a tag wins
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  tags.forEach(tag => {
+    const cleaned = tag.replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+    const key = tagKey(cleaned);
+    if (!key || seen.has(key) || result.length >= MAX_TAGS) return;
+    seen.add(key);
+    result.push(cleaned);
+  });
+  return result;
+};
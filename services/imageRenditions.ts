@@ -0,0 +1,61 @@
+/**
+ * Resized copies of an uploaded photo. The original never leaves the upload step:
+ * guides and stories use `web`, lists and chat bubbles `thumbnail`, and only the
+ * `ai` copy is ever sent to the model.
+ */
+
+export type RenditionName = 'web' | 'thumbnail' | 'ai';
+
+export interface PhotoRenditions {
+  web: Blob;
+  thumbnail: Blob;
+  ai: Blob;
+  // Of the upright original
+  width: number;
+  height: number;
+}
+
+// Longest edge in pixels and JPEG quality of each rendition
+export const RENDITION_SIZES: Record<RenditionName, { maxEdge: number; quality: number }> = {
+  web: { maxEdge: 1600, quality: 0.82 },
+  ai: { maxEdge: 1024, quality: 0.8 },
+  thumbnail: { maxEdge: 320, quality: 0.7 },
+};
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number, maxEdge: number): OffscreenCanvas => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+  const context = canvas.getContext('2d')!;
+  // JPEG has no transparency; keep transparent PNG areas white rather than black
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const toJpeg = (canvas: OffscreenCanvas, quality: number) => canvas.convertToBlob({ type: 'image/jpeg', quality });
+
+/**
+ * Decodes the image upright (the browser applies its EXIF orientation) and renders
+ * every rendition. The smaller ones are scaled down from the web copy, which is
+ * faster than starting from a full-size camera image and looks smoother.
+ * Runs in the resize worker, see imageResize.worker.ts.
+ */
+export const renderRenditions = async (source: Blob): Promise<PhotoRenditions> => {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  try {
+    const web = drawScaled(bitmap, bitmap.width, bitmap.height, RENDITION_SIZES.web.maxEdge);
+    const ai = drawScaled(web, web.width, web.height, RENDITION_SIZES.ai.maxEdge);
+    const thumbnail = drawScaled(web, web.width, web.height, RENDITION_SIZES.thumbnail.maxEdge);
+    return {
+      web: await toJpeg(web, RENDITION_SIZES.web.quality),
+      ai: await toJpeg(ai, RENDITION_SIZES.ai.quality),
+      thumbnail: await toJpeg(thumbnail, RENDITION_SIZES.thumbnail.quality),
+      width: bitmap.width,
+      height: bitmap.height
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,11 @@
+import { renderRenditions } from './imageRenditions';
+
+// Decoding and scaling camera photos takes long enough to freeze the page, so it happens here
+self.onmessage = async (event: MessageEvent<{ requestId: number; source: Blob }>) => {
+  const { requestId, source } = event.data;
+  try {
+    self.postMessage({ requestId, renditions: await renderRenditions(source) });
+  } catch (e) {
+    self.postMessage({ requestId, error: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,61 @@
+import { Place } from "../types";
+import { buildRouteLegs } from "./routePlanner";
+
+/**
+ * The day plan of a guide: when to be at each stop, in guide order. Places may pin
+ * a start time; the others follow on from the previous stop plus the walk there.
+ * Times are minutes since midnight.
+ */
+
+export const DEFAULT_DAY_START = '09:00';
+export const DEFAULT_VISIT_MINUTES = 60;
+
+export interface TimelineStop {
+  placeId: string;
+  start: number;
+  end: number;
+  walkingMinutes: number; // from the previous stop
+  // The pinned start time is earlier than the previous stop ends
+  overlaps: boolean;
+}
+
+// "HH:MM" to minutes, null when it isn't a time of day
+export const parseTime = (value?: string): number | null => {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+// Past midnight wraps around, the plan is for a single day
+export const formatTime = (minutes: number): string => {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+// Only guides where someone set a time are shown with times to readers
+export const hasSchedule = (places: Place[]): boolean => places.some(p => parseTime(p.startTime) !== null);
+
+export const buildTimeline = (places: Place[], dayStart: string = DEFAULT_DAY_START): TimelineStop[] => {
+  const walks = new Map(buildRouteLegs(places).map(leg => [leg.toPlaceId, leg.walkingMinutes]));
+  let cursor = parseTime(places[0]?.startTime) ?? parseTime(dayStart) ?? 0;
+
+  return places.map(place => {
+    const walkingMinutes = walks.get(place.id) ?? 0;
+    const arrival = cursor + walkingMinutes;
+    const pinned = parseTime(place.startTime);
+    const start = pinned ?? arrival;
+    const end = start + (place.durationMinutes ?? DEFAULT_VISIT_MINUTES);
+    const stop = { placeId: place.id, start, end, walkingMinutes, overlaps: pinned !== null && pinned < arrival };
+    cursor = end;
+    return stop;
+  });
+};
@@ -0,0 +1,76 @@
+import { Coordinates } from "../types";
+import { ProcessedPhoto } from "./photoProcessor";
+import { distanceKm } from "./utils";
+
+/**
+ * Groups a batch of uploaded photos into candidate places. Photos taken close
+ * together, both in space (EXIF GPS) and in time (EXIF DateTimeOriginal), are
+ * most likely of the same stop.
+ */
+
+// Photos farther than this from the rest of a group show another place
+export const CLUSTER_RADIUS_KM = 0.15;
+// A longer pause between shots starts a new stop, even on the same spot
+export const CLUSTER_GAP_MINUTES = 45;
+
+export interface PhotoCluster {
+  id: string;
+  photos: ProcessedPhoto[];
+  center?: Coordinates; // mean position of the photos that have one
+}
+
+export const clusterCenter = (photos: ProcessedPhoto[]): Coordinates | undefined => {
+  const located = photos.filter(p => p.gps);
+  if (located.length === 0) return undefined;
+  return {
+    latitude: located.reduce((sum, p) => sum + p.gps!.latitude, 0) / located.length,
+    longitude: located.reduce((sum, p) => sum + p.gps!.longitude, 0) / located.length
+  };
+};
+
+const isNear = (photo: ProcessedPhoto, group: ProcessedPhoto[]) => {
+  const center = clusterCenter(group);
+  return !photo.gps || !center || distanceKm(photo.gps, center) <= CLUSTER_RADIUS_KM;
+};
+
+export const toPhotoCluster = (photos: ProcessedPhoto[]): PhotoCluster => ({
+  id: photos[0].id,
+  photos,
+  center: clusterCenter(photos)
+});
+
+/**
+ * Walks the photos in capture order and starts a new group whenever the next shot
+ * is too far away or too long after the previous one. Photos without a capture
+ * time join the nearest group by position; with neither time nor position there
+ * is nothing to go on, so they stay on their own.
+ */
+export const clusterPhotos = (photos: ProcessedPhoto[]): PhotoCluster[] => {
+  const timed = photos.filter(p => p.takenAt !== undefined).sort((a, b) => a.takenAt! - b.takenAt!);
+  const groups: ProcessedPhoto[][] = [];
+
+  timed.forEach(photo => {
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+    if (current && photo.takenAt! - previous.takenAt! <= CLUSTER_GAP_MINUTES * 60_000 && isNear(photo, current)) {
+      current.push(photo);
+    } else {
+      groups.push([photo]);
+    }
+  });
+
+  photos.filter(p => p.takenAt === undefined).forEach(photo => {
+    let nearest: { group: ProcessedPhoto[]; km: number } | null = null;
+    if (photo.gps) {
+      for (const group of groups) {
+        const center = clusterCenter(group);
+        const km = center ? distanceKm(photo.gps, center) : Infinity;
+        if (km <= CLUSTER_RADIUS_KM && (!nearest || km < nearest.km)) nearest = { group, km };
+      }
+    }
+    if (nearest) nearest.group.push(photo);
+    else groups.push([photo]);
+  });
+
+  return groups.map(toPhotoCluster);
+};
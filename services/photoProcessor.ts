@@ -0,0 +1,144 @@
+import heic2any from 'heic2any';
+import ExifReader from 'exifreader';
+import { PhotoRenditions } from './imageRenditions';
+
+export type ProcessedPhoto = PhotoRenditions & {
+  id: string;
+  gps?: {
+    latitude: number;
+    longitude: number;
+  };
+  takenAt?: number; // capture time (EXIF DateTimeOriginal), ms since epoch
+};
+
+let resizeWorker: Worker | null = null;
+let nextRequestId = 0;
+const pendingResizes = new Map<number, { resolve: (renditions: PhotoRenditions) => void; reject: (error: Error) => void }>();
+
+// One worker for all uploads, started on first use
+const getResizeWorker = (): Worker => {
+  if (resizeWorker) return resizeWorker;
+
+  resizeWorker = new Worker(new URL('./imageResize.worker.ts', import.meta.url), { type: 'module' });
+  resizeWorker.onmessage = (event: MessageEvent<{ requestId: number; renditions?: PhotoRenditions; error?: string }>) => {
+    const { requestId, renditions, error } = event.data;
+    const pending = pendingResizes.get(requestId);
+    pendingResizes.delete(requestId);
+    if (renditions) pending?.resolve(renditions);
+    else pending?.reject(new Error(error || 'Could not resize the photo.'));
+  };
+  // The worker itself failed (e.g. could not load); fail what is waiting and start fresh next time
+  resizeWorker.onerror = (event) => {
+    event.preventDefault();
+    pendingResizes.forEach(pending => pending.reject(new Error('The photo resizer stopped working.')));
+    pendingResizes.clear();
+    resizeWorker?.terminate();
+    resizeWorker = null;
+  };
+  return resizeWorker;
+};
+
+const createRenditions = (source: Blob): Promise<PhotoRenditions> =>
+  new Promise((resolve, reject) => {
+    const requestId = nextRequestId++;
+    pendingResizes.set(requestId, { resolve, reject });
+    getResizeWorker().postMessage({ requestId, source });
+  });
+
+// Helper: Convert EXIF Rational (DMS) to Decimal Degrees
+const extractGpsFromTags = (tags: any): { latitude: number; longitude: number } | undefined => {
+  try {
+    if (!tags || !tags['GPSLatitude'] || !tags['GPSLongitude']) return undefined;
+
+    const latData = tags['GPSLatitude'].value;
+    const lonData = tags['GPSLongitude'].value;
+    const latRef = tags['GPSLatitudeRef']?.value?.[0] || tags['GPSLatitudeRef']?.description?.[0];
+    const lonRef = tags['GPSLongitudeRef']?.value?.[0] || tags['GPSLongitudeRef']?.description?.[0];
+
+    // Helper to convert rational [numerator, denominator] to number
+    const toNum = (val: any) => {
+      if (Array.isArray(val) && val.length === 2 && val[1] !== 0) {
+        return val[0] / val[1];
+      }
+      return Number(val);
+    };
+
+    // Ensure we have at least 3 components (Degrees, Minutes, Seconds)
+    if (latData.length < 3 || lonData.length < 3) return undefined;
+
+    const latDeg = toNum(latData[0]);
+    const latMin = toNum(latData[1]);
+    const latSec = toNum(latData[2]);
+
+    const lonDeg = toNum(lonData[0]);
+    const lonMin = toNum(lonData[1]);
+    const lonSec = toNum(lonData[2]);
+
+    let latitude = latDeg + latMin / 60.0 + latSec / 3600.0;
+    let longitude = lonDeg + lonMin / 60.0 + lonSec / 3600.0;
+
+    // Apply Reference (South or West is negative)
+    if (latRef === 'S' || latRef === 's') latitude = -latitude;
+    if (lonRef === 'W' || lonRef === 'w') longitude = -longitude;
+
+    if (isNaN(latitude) || isNaN(longitude)) return undefined;
+
+    return { latitude, longitude };
+  } catch (error) {
+    console.warn("GPS parsing logic error:", error);
+    return undefined;
+  }
+};
+
+// EXIF dates look like "2024:05:01 14:03:22" and carry no time zone; read them as local time
+const extractCaptureTime = (tags: any): number | undefined => {
+  const value: string | undefined = tags?.['DateTimeOriginal']?.description || tags?.['DateTime']?.description;
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const time = new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+  return isNaN(time) ? undefined : time;
+};
+
+export const processPhotoFile = async (file: File): Promise<ProcessedPhoto> => {
+  let processedBlob: Blob = file;
+
+  // 1. Try to read EXIF from the original file (best for HEIC/JPEG)
+  let gps: { latitude: number; longitude: number } | undefined;
+  let takenAt: number | undefined;
+  try {
+    const tags = await ExifReader.load(file);
+    gps = extractGpsFromTags(tags);
+    takenAt = extractCaptureTime(tags);
+  } catch (e) {
+    console.warn('Could not read EXIF data from original file', e);
+  }
+
+  // 2. Convert HEIC if necessary
+  if (file.type.toLowerCase() === 'image/heic' || file.name.toLowerCase().endsWith('.heic')) {
+    try {
+      // High quality, the renditions compress it again
+      const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+      processedBlob = Array.isArray(result) ? result[0] : result;
+    } catch (e) {
+      console.error("HEIC conversion failed", e);
+      throw new Error("Could not convert HEIC image. Please try a JPG or PNG.");
+    }
+  }
+
+  // 3. Upright, resized JPEG renditions, made off the main thread
+  let renditions: PhotoRenditions;
+  try {
+    renditions = await createRenditions(processedBlob);
+  } catch (e) {
+    console.error("Resizing failed", e);
+    throw new Error("Could not read this image. Please try a JPG or PNG.");
+  }
+
+  return {
+    id: `${file.name}-${Date.now()}`,
+    ...renditions,
+    gps,
+    takenAt
+  };
+};
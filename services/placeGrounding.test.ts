@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { GroundingSource, GuideDay, Place } from '../types';
+import { applyGrounding, formatRating, nameSimilarity } from './placeGrounding';
+
+const fabrica: GroundingSource = {
+  sourceType: 'maps',
+  title: 'Fábrica Coffee Roasters',
+  uri: 'https://maps.google.com/?cid=2',
+  placeId: 'places/fabrica-coffee-roasters'
+};
+
+const dayWith = (...places: Place[]): GuideDay[] => [{ id: 'd1', title: '', places }];
+
+const place = (id: string, name: string, overrides: Partial<Place> = {}): Place => ({ id, name, description: '', ...overrides });
+
+describe('nameSimilarity', () => {
+  it('matches a name contained in the other when they share at least two words', () => {
+    expect(nameSimilarity('Fabrica Coffee', 'Fábrica Coffee Roasters')).toBe(0.8);
+  });
+
+  it('does not take a single shared word for the same place', () => {
+    expect(nameSimilarity('Museum', 'National Museum of Contemporary Art')).toBeLessThan(0.6);
+  });
+});
+
+describe('applyGrounding', () => {
+  it('stores the Maps source on the matching place', () => {
+    const [day] = applyGrounding(dayWith(place('p1', 'Fábrica Coffee Roasters')), ['p1'], [fabrica], '2026-01-01T00:00:00.000Z');
+
+    expect(day.places[0].mapsUri).toBe(fabrica.uri);
+    expect(day.places[0].grounding).toMatchObject({ placeId: fabrica.placeId, matchedBy: 'name', groundedAt: '2026-01-01T00:00:00.000Z' });
+  });
+
+  it('takes the rating a Maps source carries and keeps the AI estimate otherwise', () => {
+    const days = dayWith(
+      place('p1', 'Fábrica Coffee Roasters', { rating: 4.9, ratingSource: 'model' }),
+      place('p2', 'Copenhagen Coffee Lab', { rating: 4.2, ratingSource: 'model' })
+    );
+    const copenhagen: GroundingSource = { sourceType: 'maps', title: 'Copenhagen Coffee Lab', uri: 'https://maps.google.com/?cid=3' };
+    const [day] = applyGrounding(days, ['p1', 'p2'], [{ ...fabrica, rating: 4.6 }, copenhagen]);
+
+    expect(day.places.map(p => [p.rating, p.ratingSource])).toEqual([[4.6, 'maps'], [4.2, 'model']]);
+  });
+
+  it('leaves the rating to the model when no source matches', () => {
+    const days = dayWith(place('p1', 'Museum', { rating: 4.8, ratingSource: 'model' }));
+    const museum: GroundingSource = { sourceType: 'maps', title: 'National Museum of Contemporary Art', uri: 'https://maps.google.com/?cid=4' };
+
+    expect(applyGrounding(days, ['p1'], [{ ...museum, rating: 4.1 }])).toBe(days);
+  });
+});
+
+describe('formatRating', () => {
+  it('labels every rating that did not come from Google Maps as the AI estimate', () => {
+    expect(formatRating(place('p1', 'A', { rating: 4.6, ratingSource: 'maps' }))).toBe('★ 4.6');
+    expect(formatRating(place('p1', 'A', { rating: 4.6, ratingSource: 'model' }))).toBe('★ 4.6 (AI estimate)');
+    expect(formatRating(place('p1', 'A', { rating: 4 }))).toBe('★ 4.0 (AI estimate)');
+    expect(formatRating(place('p1', 'A'))).toBeNull();
+  });
+});
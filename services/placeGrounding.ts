@@ -0,0 +1,106 @@
+import { GroundingSource, GuideDay, Place, PlaceGrounding } from "../types";
+import { mapPlaces } from "./guideDays";
+import { foldText } from "./guideTags";
+
+/**
+ * Matches the Google Maps sources a chat turn was grounded on to the places the
+ * turn added or changed, so each place keeps its Maps link, place ID and the
+ * reviews behind it instead of losing them with the chat citation.
+ */
+
+// Only a rating from a Maps lookup is shown as the place's rating; any other is the AI's estimate
+export const isMapsRating = (place: Place) => place.ratingSource === 'maps';
+
+export const AI_ESTIMATE_LABEL = 'AI estimate';
+
+export const ratingTooltip = (place: Place) =>
+  isMapsRating(place) ? 'Google Maps rating' : 'Rating estimated by the AI, not checked against Google Maps';
+
+// "★ 4.6", with "(AI estimate)" after a rating that didn't come from Google Maps
+export const formatRating = (place: Place): string | null =>
+  place.rating === undefined ? null : `★ ${place.rating.toFixed(1)}${isMapsRating(place) ? '' : ` (${AI_ESTIMATE_LABEL})`}`;
+
+// Below this name similarity a source is not taken to be the place
+const MIN_NAME_SIMILARITY = 0.6;
+
+const nameTokens = (name: string) => new Set(foldText(name).split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+// Containing a single word, like "Museum", says nothing about being the same place
+const MIN_CONTAINED_WORDS = 2;
+
+// 1 for the same name; otherwise the share of words they have in common, or 0.8 when one name contains the other
+export const nameSimilarity = (a: string, b: string): number => {
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  const shared = [...ta].filter(t => tb.has(t)).length;
+  if (shared === ta.size && shared === tb.size) return 1;
+  if (shared >= MIN_CONTAINED_WORDS && shared === Math.min(ta.size, tb.size)) return 0.8;
+  return shared / (ta.size + tb.size - shared);
+};
+
+/**
+ * The Maps source for each place, keyed by place id. A source already linked to a
+ * place by its place ID stays with it; the rest go to the place whose name fits
+ * best. Each source is used once.
+ */
+export const matchGroundingToPlaces = (
+  places: Place[],
+  sources: GroundingSource[]
+): Map<string, { source: GroundingSource; matchedBy: PlaceGrounding['matchedBy'] }> => {
+  const matches = new Map<string, { source: GroundingSource; matchedBy: PlaceGrounding['matchedBy'] }>();
+  const unused = sources.filter(s => s.sourceType === 'maps' && s.uri);
+
+  places.forEach(place => {
+    const index = unused.findIndex(s => s.placeId && s.placeId === place.grounding?.placeId);
+    if (index >= 0) matches.set(place.id, { source: unused.splice(index, 1)[0], matchedBy: 'placeId' });
+  });
+
+  // Best pairs first, so a near miss can't take a source from its exact match
+  const candidates = places
+    .filter(p => !matches.has(p.id))
+    .flatMap(place => unused.map(source => ({ place, source, score: nameSimilarity(place.name, source.title || '') })))
+    .filter(c => c.score >= MIN_NAME_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+  const taken = new Set<GroundingSource>();
+  candidates.forEach(({ place, source }) => {
+    if (matches.has(place.id) || taken.has(source)) return;
+    taken.add(source);
+    matches.set(place.id, { source, matchedBy: 'name' });
+  });
+  return matches;
+};
+
+/**
+ * Stores the matching Maps source on each of `placeIds`; other places are left alone.
+ * A rating the source carries replaces the AI's own.
+ */
+export const applyGrounding = (
+  days: GuideDay[],
+  placeIds: string[],
+  sources: GroundingSource[],
+  groundedAt = new Date().toISOString()
+): GuideDay[] => {
+  const places = days.flatMap(d => d.places).filter(p => placeIds.includes(p.id));
+  const matches = matchGroundingToPlaces(places, sources);
+  if (matches.size === 0) return days;
+  return mapPlaces(days, place => {
+    const match = matches.get(place.id);
+    if (!match) return place;
+    const { source, matchedBy } = match;
+    return {
+      ...place,
+      mapsUri: source.uri,
+      ...(source.rating !== undefined ? { rating: source.rating, ratingSource: 'maps' as const } : {}),
+      grounding: {
+        provider: 'google-maps',
+        placeId: source.placeId,
+        title: source.title,
+        uri: source.uri!,
+        reviewSnippets: source.reviewSnippets,
+        matchedBy,
+        groundedAt
+      }
+    };
+  });
+};
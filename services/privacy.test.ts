@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { Guide, Place } from '../types';
+import { applyLocationPrivacy, approximateCoordinates, stripImageMetadata } from './privacy';
+import { distanceKm } from './utils';
+
+const bytes = (...parts: (number[] | string | Uint8Array)[]): Uint8Array => {
+  const arrays = parts.map(p => typeof p === 'string' ? new TextEncoder().encode(p) : Uint8Array.from(p));
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  arrays.forEach(a => { result.set(a, offset); offset += a.length; });
+  return result;
+};
+
+const strip = async (input: Uint8Array, type: string) => new Uint8Array(await (await stripImageMetadata(new Blob([input], { type }))).arrayBuffer());
+
+const ascii = (data: Uint8Array) => String.fromCharCode(...data);
+
+// GPS position as it would sit in the metadata
+const GPS = 'GPSLatitude 38.7118 GPSLongitude -9.1302';
+
+describe('stripImageMetadata', () => {
+  // A JPEG segment: marker, two-byte length (which counts itself) and payload
+  const segment = (marker: number, payload: Uint8Array | string) => {
+    const data = bytes(payload);
+    return bytes([0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff], data);
+  };
+
+  it('drops the EXIF, comment and trailing data of a JPEG and keeps the image', async () => {
+    const soi = bytes([0xff, 0xd8]);
+    const jfif = segment(0xe0, bytes('JFIF', [0, 1, 1, 0, 0, 1, 0, 1, 0, 0]));
+    const exif = segment(0xe1, bytes('Exif', [0, 0], GPS));
+    const icc = segment(0xe2, bytes('ICC_PROFILE', [0, 1, 1], 'profile'));
+    const comment = segment(0xfe, 'Shot on a phone at home');
+    const quantization = segment(0xdb, bytes([0, ...Array(64).fill(1)]));
+    // Scan data with a stuffed 0xff00 and a restart marker, which are part of the image
+    const scan = bytes(segment(0xda, bytes([1, 1, 0, 0, 63, 0])), [0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56]);
+    const eoi = bytes([0xff, 0xd9]);
+    const trailer = bytes([0xff, 0xd8], segment(0xe1, bytes('Exif', [0, 0], GPS)), [0xff, 0xd9]);
+
+    const stripped = await strip(bytes(soi, jfif, exif, icc, comment, quantization, scan, eoi, trailer), 'image/jpeg');
+
+    expect(stripped).toEqual(bytes(soi, jfif, icc, quantization, scan, eoi));
+    expect(ascii(stripped)).not.toContain('GPS');
+  });
+
+  // A PNG chunk: length, type, data and a CRC the stripper doesn't check
+  const chunk = (type: string, data: Uint8Array | string) => {
+    const payload = bytes(data);
+    const length = payload.length;
+    return bytes([length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff], type, payload, [1, 2, 3, 4]);
+  };
+
+  it('drops the text, EXIF and time chunks of a PNG and keeps the image', async () => {
+    const signature = bytes([0x89], 'PNG\r\n\x1a\n');
+    const header = chunk('IHDR', bytes([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]));
+    const text = chunk('tEXt', bytes('Comment', [0], 'Our flat'));
+    const exif = chunk('eXIf', bytes('MM', [0, 42], GPS));
+    const time = chunk('tIME', bytes([7, 234, 10, 19, 12, 0, 0]));
+    const data = chunk('IDAT', bytes([0x78, 0x9c, 0x63, 0x60, 0, 0, 0, 2, 0, 1]));
+    const end = chunk('IEND', new Uint8Array());
+
+    const stripped = await strip(bytes(signature, header, text, exif, time, data, end), 'image/png');
+
+    expect(stripped).toEqual(bytes(signature, header, data, end));
+    expect(ascii(stripped)).not.toContain('GPS');
+  });
+
+  // A RIFF chunk: type, little-endian size and data, padded to an even length
+  const riffChunk = (type: string, data: Uint8Array | string) => {
+    const payload = bytes(data);
+    const size = payload.length;
+    return bytes(type, [size & 0xff, (size >> 8) & 0xff, (size >> 16) & 0xff, size >>> 24], payload, size % 2 ? [0] : []);
+  };
+  const riff = (...chunks: Uint8Array[]) => {
+    const body = bytes('WEBP', ...chunks);
+    return bytes('RIFF', [body.length & 0xff, (body.length >> 8) & 0xff, (body.length >> 16) & 0xff, body.length >>> 24], body);
+  };
+
+  it('drops the EXIF and XMP chunks of a WebP and clears their flags', async () => {
+    const extended = (flags: number) => riffChunk('VP8X', bytes([flags, 0, 0, 0, 0, 0, 0, 0, 0, 0]));
+    // Odd length, so the chunk carries a padding byte
+    const image = riffChunk('VP8 ', bytes([0x30, 0x01, 0x00, 0x9d, 0x01, 0x2a, 1, 0, 1]));
+    const exif = riffChunk('EXIF', bytes('MM', [0, 42], GPS));
+    const xmp = riffChunk('XMP ', `<x:xmpmeta>${GPS}</x:xmpmeta>`);
+
+    // 0x08 flags EXIF, 0x04 XMP and 0x10 an alpha channel, which stays
+    const stripped = await strip(riff(extended(0x08 | 0x04 | 0x10), image, exif, xmp), 'image/webp');
+
+    expect(stripped).toEqual(riff(extended(0x10), image));
+    expect(ascii(stripped)).not.toContain('GPS');
+  });
+
+  it('returns formats it does not know as they are', async () => {
+    const gif = bytes('GIF89a', [1, 0, 1, 0]);
+    expect(await strip(gif, 'image/gif')).toEqual(gif);
+  });
+});
+
+describe('applyLocationPrivacy', () => {
+  const home: Place = {
+    id: 'p1',
+    name: 'Our flat',
+    description: '',
+    approximate: true,
+    coordinates: { latitude: 38.71234, longitude: -9.13456 },
+    address: 'Rua da Saudade 12, 2º Esq, Lisboa',
+    mapsUri: 'https://maps.google.com/?cid=99',
+    grounding: { provider: 'google-maps', uri: 'https://maps.google.com/?cid=99', matchedBy: 'name', groundedAt: '2026-01-01T00:00:00.000Z' }
+  };
+  const cafe: Place = { id: 'p2', name: 'Café', description: '', coordinates: { latitude: 38.71, longitude: -9.14 }, address: 'Rua Augusta 1' };
+  const guide: Guide = {
+    id: 'g1',
+    title: 'Home turf',
+    author: { id: 'u1', name: 'Ana', avatar: '' },
+    days: [{ id: 'd1', title: '', places: [home, cafe] }],
+    coverImage: '',
+    locationName: 'Lisbon',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    status: 'draft'
+  };
+
+  it('removes the address, Maps link and grounding of private places and blurs their position', () => {
+    const [blurred, untouched] = applyLocationPrivacy(guide).days[0].places;
+
+    expect(blurred.address).toBeUndefined();
+    expect(blurred.mapsUri).toBeUndefined();
+    expect(blurred.grounding).toBeUndefined();
+    expect(blurred.coordinates).not.toEqual(home.coordinates);
+    // Within its grid cell of roughly 1.1 km
+    expect(distanceKm(blurred.coordinates!, home.coordinates!)).toBeLessThan(1.6);
+    expect(untouched).toBe(cafe);
+  });
+
+  it('blurs the same way every time, and hides where in its cell the place is', () => {
+    const once = applyLocationPrivacy(guide).days[0].places[0].coordinates;
+    expect(applyLocationPrivacy(guide).days[0].places[0].coordinates).toEqual(once);
+
+    const elsewhereInTheCell = { latitude: 38.7152, longitude: -9.1321 };
+    expect(approximateCoordinates(elsewhereInTheCell, home.id)).toEqual(once);
+  });
+});
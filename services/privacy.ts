@@ -0,0 +1,159 @@
+import { Coordinates, Guide, Place } from "../types";
+import { distanceKm, hashString } from "./utils";
+import { mapPlaces } from "./guideDays";
+
+/**
+ * What leaves the browser when a guide is published or exported: photos without
+ * their metadata, and private places only roughly located.
+ */
+
+// Places this close to where the author is get flagged, it may well be their home
+export const HOME_RADIUS_KM = 0.5;
+// Approximate places are snapped to a grid of roughly 1.1 km cells
+const APPROXIMATE_GRID_DEGREES = 0.01;
+// How far inside its cell an approximate point may be moved, as a share of the cell
+const APPROXIMATE_JITTER = 0.35;
+
+export const findPlacesNearHome = (places: Place[], home: Coordinates): Place[] =>
+  places.filter(p => !p.approximate && p.coordinates && distanceKm(p.coordinates, home) <= HOME_RADIUS_KM);
+
+// Stable in [-0.5, 0.5) for a given seed, so republishing never reveals more
+const seededOffset = (seed: string): number => parseInt(hashString(seed), 36) / 2 ** 32 - 0.5;
+
+/**
+ * Snaps the point to the centre of its grid cell, which is what hides the real
+ * position, then moves it a fixed, seed-dependent amount so approximate places
+ * don't line up on an obvious grid.
+ */
+export const approximateCoordinates = (coordinates: Coordinates, seed: string): Coordinates => {
+  const latStep = APPROXIMATE_GRID_DEGREES;
+  const latCell = Math.floor(coordinates.latitude / latStep);
+  // Keep cells roughly square away from the equator
+  const lngStep = APPROXIMATE_GRID_DEGREES / Math.max(Math.cos(((latCell + 0.5) * latStep) * Math.PI / 180), 0.1);
+  const lngCell = Math.floor(coordinates.longitude / lngStep);
+  return {
+    latitude: (latCell + 0.5 + seededOffset(`${seed}:lat`) * 2 * APPROXIMATE_JITTER) * latStep,
+    longitude: (lngCell + 0.5 + seededOffset(`${seed}:lng`) * 2 * APPROXIMATE_JITTER) * lngStep
+  };
+};
+
+// The guide as the public sees it: approximate places lose their exact position, street address and Maps link
+export const applyLocationPrivacy = (guide: Guide): Guide => ({
+  ...guide,
+  days: mapPlaces(guide.days, place => place.approximate
+    ? {
+        ...place,
+        address: undefined,
+        mapsUri: undefined,
+        grounding: undefined,
+        coordinates: place.coordinates && approximateCoordinates(place.coordinates, place.id)
+      }
+    : place)
+});
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const asciiAt = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * Keeps only what is needed to decode a JPEG: drops EXIF and XMP (APP1), comments
+ * and every other APPn segment except JFIF (APP0), ICC colour profiles (APP2) and
+ * Adobe colour info (APP14), plus anything after the end of the image, where
+ * phones put extra pictures that carry metadata of their own.
+ */
+const stripJpeg = (bytes: Uint8Array): Uint8Array => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error('Malformed JPEG.');
+    const marker = bytes[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9) {
+      kept.push(bytes.subarray(offset, offset + 2));
+      break;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    let end = offset + 2 + length;
+
+    // Start of scan: the compressed data runs until the next marker that isn't a restart or stuffed byte
+    if (marker === 0xda) {
+      while (end + 1 < bytes.length && !(bytes[end] === 0xff && bytes[end + 1] !== 0 && (bytes[end + 1] < 0xd0 || bytes[end + 1] > 0xd7))) end++;
+    }
+
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    const keep = (!isApp && marker !== 0xfe)
+      || marker === 0xe0
+      || marker === 0xee
+      || (marker === 0xe2 && asciiAt(bytes, offset + 4, 11) === 'ICC_PROFILE');
+    if (keep) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  return concat(kept);
+};
+
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+
+// Drops the text, EXIF and timestamp chunks of a PNG
+const stripPng = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    const type = asciiAt(bytes, offset + 4, 4);
+    if (!PNG_METADATA_CHUNKS.has(type)) kept.push(bytes.subarray(offset, end));
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return concat(kept);
+};
+
+// Drops the EXIF and XMP chunks of a WebP and clears their flags in the VP8X header
+const stripWebp = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = asciiAt(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(offset + 8 + size + (size % 2), bytes.length);
+    if (type === 'VP8X') {
+      const chunk = bytes.slice(offset, end);
+      chunk[8] &= ~(0x08 | 0x04);
+      kept.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, 4 + kept.reduce((sum, chunk) => sum + chunk.length, 0), true);
+  return concat([header, ...kept]);
+};
+
+/**
+ * The same image without metadata (camera, time, GPS position...). Works on the
+ * file structure, so the pixels are untouched. Formats it doesn't know are
+ * returned as they are; everything the app creates itself is JPEG.
+ */
+export const stripImageMetadata = async (blob: Blob): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return new Blob([stripJpeg(bytes)], { type: 'image/jpeg' });
+  if (asciiAt(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return new Blob([stripPng(bytes)], { type: 'image/png' });
+  if (asciiAt(bytes, 0, 4) === 'RIFF' && asciiAt(bytes, 8, 4) === 'WEBP') return new Blob([stripWebp(bytes)], { type: 'image/webp' });
+  return blob;
+};
@@ -0,0 +1,294 @@
+/**
+ * QR codes for share links, made in the browser so links never go through a
+ * third-party service. Implements the part of ISO/IEC 18004 links need: byte
+ * mode, error correction level M, versions 1 to 10 (up to 213 bytes).
+ */
+
+export interface QrCode {
+  size: number; // modules per side, without the quiet zone
+  modules: boolean[][]; // [row][column], true is dark
+}
+
+const MAX_VERSION = 10;
+// Level M, index 0 is version 1
+const EC_CODEWORDS_PER_BLOCK = [10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const EC_BLOCKS = [1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const EC_LEVEL_M_BITS = 0b00;
+const BYTE_MODE = 0b0100;
+
+// --- Reed-Solomon over GF(256), polynomial 0x11d ---
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number): number[] => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor); });
+  });
+  return result;
+};
+
+// --- Layout ---
+
+const sizeOf = (version: number) => version * 4 + 17;
+
+const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = sizeOf(version) - 7; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+  return positions;
+};
+
+// Modules left for data and error correction once the function patterns are drawn
+const rawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const count = Math.floor(version / 7) + 2;
+    result -= (25 * count - 10) * count - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawDataModules(version) / 8) - EC_CODEWORDS_PER_BLOCK[version - 1] * EC_BLOCKS[version - 1];
+
+const countBits = (version: number) => (version <= 9 ? 8 : 16);
+
+const bchFormatBits = (mask: number): number => {
+  const data = (EC_LEVEL_M_BITS << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+};
+
+const bchVersionBits = (version: number): number => {
+  let rem = version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  return (version << 12) | rem;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const encodeData = (bytes: Uint8Array, version: number): number[] => {
+  const capacityBits = dataCodewords(version) * 8;
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(BYTE_MODE, 4);
+  push(bytes.length, countBits(version));
+  bytes.forEach(b => push(b, 8));
+  push(0, Math.min(4, capacityBits - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+};
+
+// Splits the data into blocks, adds each block's error correction and interleaves them
+const addErrorCorrection = (data: number[], version: number): number[] => {
+  const blockCount = EC_BLOCKS[version - 1];
+  const ecLength = EC_CODEWORDS_PER_BLOCK[version - 1];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = rsDivisor(ecLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - ecLength + (i < shortBlocks ? 0 : 1));
+    offset += blockData.length;
+    const ec = rsRemainder(blockData, divisor);
+    // Placeholder so every block has the same length while interleaving
+    if (i < shortBlocks) blockData.push(0);
+    blocks.push([...blockData, ...ec]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - ecLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const penaltyScore = (modules: boolean[][]): number => {
+  const size = modules.length;
+  let penalty = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map(row => row[x])),
+  ];
+  lines.forEach(line => {
+    // Runs of five or more of the same colour
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+    }
+    // Look-alikes of the finder pattern
+    const text = line.map(dark => (dark ? '1' : '0')).join('');
+    penalty += 40 * ((text.match(/(?=10111010000)/g) || []).length + (text.match(/(?=00001011101)/g) || []).length);
+  });
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) penalty += 3;
+    }
+  }
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+};
+
+const buildMatrix = (version: number, codewords: number[], mask: number): boolean[][] => {
+  const size = sizeOf(version);
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  // Finder patterns with their separators
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+  // Alignment patterns, except where they would cover a finder
+  const positions = alignmentPositions(version);
+  positions.forEach((cy, i) => positions.forEach((cx, j) => {
+    const onFinder = (i === 0 && j === 0) || (i === 0 && j === positions.length - 1) || (i === positions.length - 1 && j === 0);
+    if (onFinder) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+  // Format information, twice, and the dark module
+  const format = bchFormatBits(mask);
+  const formatBit = (i: number) => ((format >>> i) & 1) === 1;
+  for (let i = 0; i <= 5; i++) setFunction(8, i, formatBit(i));
+  setFunction(8, 7, formatBit(6));
+  setFunction(8, 8, formatBit(7));
+  setFunction(7, 8, formatBit(8));
+  for (let i = 9; i < 15; i++) setFunction(14 - i, 8, formatBit(i));
+  for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, formatBit(i));
+  for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, formatBit(i));
+  setFunction(8, size - 8, true);
+  // Version information from version 7 on
+  if (version >= 7) {
+    const versionBits = bchVersionBits(version);
+    for (let i = 0; i < 18; i++) {
+      const dark = ((versionBits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  // Data in two-column zigzags from the bottom right, skipping the vertical timing pattern
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert++) {
+      const y = upward ? size - 1 - vert : vert;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (isFunction[y][x]) continue;
+        if (bit < codewords.length * 8) {
+          modules[y][x] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) === 1;
+          bit++;
+        }
+        if (MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  }
+  return modules;
+};
+
+export const createQrCode = (text: string): QrCode => {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= MAX_VERSION && 4 + countBits(version) + bytes.length * 8 > dataCodewords(version) * 8) version++;
+  if (version > MAX_VERSION) throw new Error('Too long for a QR code.');
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+  // The mask that leaves the fewest patterns that confuse scanners
+  let best = buildMatrix(version, codewords, 0);
+  let bestPenalty = penaltyScore(best);
+  for (let mask = 1; mask < MASKS.length; mask++) {
+    const modules = buildMatrix(version, codewords, mask);
+    const penalty = penaltyScore(modules);
+    if (penalty < bestPenalty) {
+      best = modules;
+      bestPenalty = penalty;
+    }
+  }
+  return { size: sizeOf(version), modules: best };
+};
+
+// SVG markup of the code with the standard four-module quiet zone, one path for all dark modules
+export const qrCodeSvg = (text: string, quietZone = 4): string => {
+  const { size, modules } = createQrCode(text);
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + quietZone},${y + quietZone}h1v1h-1z` : '')))
+    .join('');
+  const total = size + quietZone * 2;
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges"><rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
@@ -0,0 +1,87 @@
+import { Coordinates, GeoLocation } from "../types";
+import { distanceKm, EARTH_RADIUS_KM } from "./utils";
+
+/**
+ * Offline reverse geocoding against the bundled GeoNames extract in data/cities.json
+ * (cities over 15,000 people, see scripts/build-geocoder-data.mjs). The dataset is
+ * loaded on first use and indexed in a grid of 1° cells for nearest-city lookups.
+ */
+
+interface CityData {
+  countries: [string, string][];
+  regions: [string, number][];
+  cities: [string, number, number, number, number][];
+}
+
+interface CityIndex {
+  data: CityData;
+  cells: Map<string, number[]>;
+}
+
+const KM_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_KM;
+// A city farther away than this doesn't describe the point (open sea, wilderness)
+const MAX_DISTANCE_KM = 150;
+
+let indexPromise: Promise<CityIndex> | null = null;
+
+const cellKey = (latCell: number, lngCell: number) => `${latCell}:${((lngCell + 180) % 360 + 360) % 360 - 180}`;
+
+const loadIndex = (): Promise<CityIndex> => {
+  if (indexPromise) return indexPromise;
+
+  indexPromise = import("../data/cities.json").then(module => {
+    const data = module.default as unknown as CityData;
+    const cells = new Map<string, number[]>();
+    data.cities.forEach(([, lat, lng], i) => {
+      const key = cellKey(Math.floor(lat), Math.floor(lng));
+      const cell = cells.get(key);
+      if (cell) cell.push(i);
+      else cells.set(key, [i]);
+    });
+    return { data, cells };
+  });
+
+  // Allow a later call to retry if loading failed
+  indexPromise.catch(() => { indexPromise = null; });
+  return indexPromise;
+};
+
+/**
+ * Nearest city to the point, with its admin region and country, or null when
+ * there is none within MAX_DISTANCE_KM.
+ */
+export const reverseGeocode = async (coords: Coordinates): Promise<GeoLocation | null> => {
+  const { data, cells } = await loadIndex();
+  const latCell = Math.floor(coords.latitude);
+  const lngCell = Math.floor(coords.longitude);
+
+  // Only cells that can hold a city within MAX_DISTANCE_KM; degrees of longitude shrink towards the poles
+  const latSpan = Math.ceil(MAX_DISTANCE_KM / KM_PER_DEGREE);
+  const farthestLat = Math.min(89.9, Math.abs(coords.latitude) + latSpan + 1);
+  const lngSpan = Math.min(180, Math.ceil(MAX_DISTANCE_KM / (KM_PER_DEGREE * Math.cos(farthestLat * Math.PI / 180))));
+
+  let best: { index: number; distance: number } | null = null;
+  for (let dLat = -latSpan; dLat <= latSpan; dLat++) {
+    for (let dLng = -lngSpan; dLng <= lngSpan; dLng++) {
+      for (const index of cells.get(cellKey(latCell + dLat, lngCell + dLng)) || []) {
+        const [, latitude, longitude] = data.cities[index];
+        const distance = distanceKm(coords, { latitude, longitude });
+        if (!best || distance < best.distance) best = { index, distance };
+      }
+    }
+  }
+
+  if (!best || best.distance > MAX_DISTANCE_KM) return null;
+  const [city, , , regionIndex, countryIndex] = data.cities[best.index];
+  const [countryCode, country] = data.countries[countryIndex];
+  return {
+    city,
+    region: regionIndex >= 0 ? data.regions[regionIndex][0] : undefined,
+    country,
+    countryCode,
+    distanceKm: Math.round(best.distance * 10) / 10
+  };
+};
+
+// "Lisbon, Portugal"
+export const formatLocation = (location: GeoLocation): string => `${location.city}, ${location.country}`;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { Place } from '../types';
+import { buildRouteLegs, optimizePlaceOrder, summarizeRoute } from './routePlanner';
+
+const place = (id: string, latitude?: number, longitude?: number): Place => ({
+  id,
+  name: id,
+  description: '',
+  coordinates: latitude === undefined || longitude === undefined ? undefined : { latitude, longitude }
+});
+
+const ids = (places: Place[]) => places.map(p => p.id);
+
+const routeKm = (places: Place[]) => summarizeRoute(buildRouteLegs(places)).distanceKm;
+
+// Shortest walking order by trying every permutation
+const bruteForceKm = (places: Place[]): number => {
+  const permutations = (rest: Place[]): Place[][] =>
+    rest.length <= 1 ? [rest] : rest.flatMap((p, i) => permutations([...rest.slice(0, i), ...rest.slice(i + 1)]).map(tail => [p, ...tail]));
+  return Math.min(...permutations(places).map(routeKm));
+};
+
+// Stops along one street, 0.01° (about 1.1 km) apart, listed out of order
+const street = [place('b', 0, 0.01), place('a', 0, 0), place('e', 0, 0.04), place('c', 0, 0.02), place('d', 0, 0.03)];
+
+describe('optimizePlaceOrder', () => {
+  it('walks the stops along a street in order', () => {
+    const order = ids(optimizePlaceOrder(street));
+
+    expect([order, [...order].reverse()]).toContainEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('finds the shortest order through scattered stops', () => {
+    const scattered = [
+      place('p1', 38.7103, -9.1434), place('p2', 38.7135, -9.1517), place('p3', 38.7118, -9.1302), place('p4', 38.7079, -9.1365),
+      place('p5', 38.7169, -9.1399), place('p6', 38.7139, -9.1335), place('p7', 38.7053, -9.1441), place('p8', 38.7200, -9.1460)
+    ];
+
+    expect(routeKm(optimizePlaceOrder(scattered))).toBeCloseTo(bruteForceKm(scattered), 9);
+  });
+
+  it('keeps a fixed start and end where they are', () => {
+    expect(ids(optimizePlaceOrder(street, { fixStart: true }))).toEqual(['b', 'a', 'c', 'd', 'e']);
+    expect(ids(optimizePlaceOrder(street, { fixStart: true, fixEnd: true }))).toEqual(['b', 'a', 'c', 'e', 'd']);
+  });
+
+  it('leaves stops without coordinates in their slot', () => {
+    const places = [place('note'), street[0], street[1], place('lunch'), street[2], street[3]];
+    const order = ids(optimizePlaceOrder(places, { fixStart: true }));
+
+    expect(order[0]).toBe('note');
+    expect(order[3]).toBe('lunch');
+    expect(order.filter(id => id !== 'note' && id !== 'lunch')).toEqual(['b', 'a', 'c', 'e']);
+  });
+
+  it('leaves fewer than three located stops as they are', () => {
+    const places = [street[2], place('note'), street[0]];
+    expect(optimizePlaceOrder(places)).toBe(places);
+  });
+
+  describe('above twelve stops, where it searches instead of solving exactly', () => {
+    it('walks a long street in order', () => {
+      const longStreet = Array.from({ length: 13 }, (_, i) => place(`s${(i * 5) % 13}`, 0, ((i * 5) % 13) * 0.01));
+      const order = ids(optimizePlaceOrder(longStreet));
+      const inOrder = Array.from({ length: 13 }, (_, i) => `s${i}`);
+
+      expect([order, [...order].reverse()]).toContainEqual(inOrder);
+    });
+
+    it('snakes through a grid of stops without doubling back, keeping the fixed endpoints', () => {
+      // 4 × 4 blocks, listed column by column from the middle outwards
+      const grid = [1, 2, 0, 3].flatMap(col => [0, 1, 2, 3].map(row => place(`${row}${col}`, row * 0.01, col * 0.01)));
+      const optimized = optimizePlaceOrder(grid, { fixStart: true, fixEnd: true });
+
+      expect(optimized[0]).toBe(grid[0]);
+      expect(optimized[15]).toBe(grid[15]);
+      expect([...ids(optimized)].sort()).toEqual([...ids(grid)].sort());
+      // Fifteen steps of one block each
+      expect(routeKm(optimized)).toBeLessThan(15 * 1.12);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { Place } from "../types";
+import { distanceKm } from "./utils";
+
+/**
+ * Walking route between the stops of a guide, computed locally: straight-line
+ * (haversine) distances and a walking pace model, no routing service involved.
+ */
+
+export const WALKING_SPEED_KMH = 4.5;
+// Streets are rarely straight; walking distance is roughly this much longer than as the crow flies
+export const DETOUR_FACTOR = 1.3;
+
+export interface RouteLeg {
+  fromPlaceId: string;
+  toPlaceId: string;
+  distanceKm: number; // straight line
+  walkingMinutes: number;
+}
+
+export interface OptimizeOptions {
+  // Keep the first / last located stop where it is
+  fixStart?: boolean;
+  fixEnd?: boolean;
+}
+
+export const estimateWalkingMinutes = (km: number): number => Math.round((km * DETOUR_FACTOR / WALKING_SPEED_KMH) * 60);
+
+// Legs between consecutive stops that have coordinates; stops without them are skipped
+export const buildRouteLegs = (places: Place[]): RouteLeg[] => {
+  const located = places.filter(p => p.coordinates);
+  return located.slice(1).map((to, idx) => {
+    const from = located[idx];
+    const km = distanceKm(from.coordinates!, to.coordinates!);
+    return { fromPlaceId: from.id, toPlaceId: to.id, distanceKm: km, walkingMinutes: estimateWalkingMinutes(km) };
+  });
+};
+
+export const summarizeRoute = (legs: RouteLeg[]) => ({
+  distanceKm: legs.reduce((sum, leg) => sum + leg.distanceKm, 0),
+  walkingMinutes: legs.reduce((sum, leg) => sum + leg.walkingMinutes, 0),
+});
+
+export const formatDistance = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000 / 10) * 10} m` : `${km.toFixed(1)} km`;
+
+// Up to this many stops the order is solved exactly; a day rarely has more
+const EXACT_SOLVE_LIMIT = 12;
+
+const pathLength = (order: number[], dist: number[][]) =>
+  order.slice(1).reduce((sum, node, idx) => sum + dist[order[idx]][node], 0);
+
+/**
+ * Exact shortest open path (Held-Karp dynamic programming over subsets). With a
+ * fixed end, the path is solved over the other nodes and the end appended.
+ */
+const solveOpenPathExactly = (dist: number[][], fixStart: boolean, fixEnd: boolean): number[] => {
+  const n = dist.length;
+  const m = fixEnd ? n - 1 : n;
+  const full = (1 << m) - 1;
+  // cost[mask * m + j]: shortest path visiting `mask`, ending at j
+  const cost = new Float64Array((full + 1) * m).fill(Infinity);
+  const parent = new Int8Array((full + 1) * m).fill(-1);
+  for (let s = 0; s < (fixStart ? 1 : m); s++) cost[(1 << s) * m + s] = 0;
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let j = 0; j < m; j++) {
+      const current = cost[mask * m + j];
+      if (!(mask & (1 << j)) || current === Infinity) continue;
+      for (let k = 0; k < m; k++) {
+        if (mask & (1 << k)) continue;
+        const next = (mask | (1 << k)) * m + k;
+        if (current + dist[j][k] < cost[next]) {
+          cost[next] = current + dist[j][k];
+          parent[next] = j;
+        }
+      }
+    }
+  }
+
+  let last = 0;
+  const total = (j: number) => cost[full * m + j] + (fixEnd ? dist[j][n - 1] : 0);
+  for (let j = 1; j < m; j++) if (total(j) < total(last)) last = j;
+
+  const order: number[] = [];
+  for (let mask = full, j = last; j >= 0;) {
+    order.unshift(j);
+    const previous = parent[mask * m + j];
+    mask &= ~(1 << j);
+    j = previous;
+  }
+  if (fixEnd) order.push(n - 1);
+  return order;
+};
+
+/**
+ * Shortest open path through all nodes: nearest-neighbour paths from every allowed
+ * start, each improved by local search, keeping the best. Fixed endpoints never move.
+ */
+const solveOpenPath = (dist: number[][], fixStart: boolean, fixEnd: boolean): number[] => {
+  const n = dist.length;
+  const end = fixEnd ? n - 1 : null;
+  const starts = fixStart ? [0] : Array.from({ length: n }, (_, i) => i).filter(i => i !== end);
+
+  let best: number[] = [];
+  let bestLength = Infinity;
+  for (const start of starts) {
+    // Nearest neighbour, leaving a fixed end for last
+    const order = [start];
+    const remaining = new Set(Array.from({ length: n }, (_, i) => i).filter(i => i !== start && i !== end));
+    while (remaining.size > 0) {
+      const current = order[order.length - 1];
+      let next = -1;
+      remaining.forEach(i => { if (next < 0 || dist[current][i] < dist[current][next]) next = i; });
+      order.push(next);
+      remaining.delete(next);
+    }
+    if (end !== null) order.push(end);
+
+    // Local search until nothing shortens the path: 2-opt reverses order[i..j],
+    // or-opt moves a run of up to three stops elsewhere
+    const firstMovable = fixStart ? 1 : 0;
+    const lastMovable = fixEnd ? n - 2 : n - 1;
+    const edge = (a: number, b: number) => (a < 0 || b >= n ? 0 : dist[order[a]][order[b]]);
+    for (let improved = true; improved;) {
+      improved = false;
+      for (let i = firstMovable; i < lastMovable; i++) {
+        for (let j = i + 1; j <= lastMovable; j++) {
+          const delta = edge(i - 1, j) + edge(i, j + 1) - edge(i - 1, i) - edge(j, j + 1);
+          if (delta < -1e-9) {
+            order.splice(i, j - i + 1, ...order.slice(i, j + 1).reverse());
+            improved = true;
+          }
+        }
+      }
+      for (let runLength = 1; runLength <= 3; runLength++) {
+        for (let i = firstMovable; i + runLength - 1 <= lastMovable; i++) {
+          const run = order.slice(i, i + runLength);
+          const rest = [...order.slice(0, i), ...order.slice(i + runLength)];
+          for (let k = firstMovable; k <= rest.length - (fixEnd ? 1 : 0); k++) {
+            const candidate = [...rest.slice(0, k), ...run, ...rest.slice(k)];
+            if (pathLength(candidate, dist) < pathLength(order, dist) - 1e-9) {
+              order.splice(0, n, ...candidate);
+              improved = true;
+              break;
+            }
+          }
+        }
+      }
+    }
+
+    const length = pathLength(order, dist);
+    if (length < bestLength) {
+      best = order;
+      bestLength = length;
+    }
+  }
+  return best;
+};
+
+/**
+ * Reorders the stops with coordinates into the shortest walking order. Stops without
+ * coordinates keep their position in the list.
+ */
+export const optimizePlaceOrder = (places: Place[], options: OptimizeOptions = {}): Place[] => {
+  const slots = places.flatMap((p, idx) => (p.coordinates ? [idx] : []));
+  if (slots.length < 3) return places;
+
+  const located = slots.map(idx => places[idx]);
+  const dist = located.map(a => located.map(b => distanceKm(a.coordinates!, b.coordinates!)));
+  const order = located.length <= EXACT_SOLVE_LIMIT
+    ? solveOpenPathExactly(dist, !!options.fixStart, !!options.fixEnd)
+    : solveOpenPath(dist, !!options.fixStart, !!options.fixEnd);
+
+  const result = [...places];
+  slots.forEach((slot, k) => { result[slot] = located[order[k]]; });
+  return result;
+};
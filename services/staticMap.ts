@@ -0,0 +1,67 @@
+import { Coordinates, StaticMapLayout, StaticMapTile } from "../types";
+
+// Same basemap as the interactive GuideMap, fetched as plain tiles
+const TILE_URL = 'https://a.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}.png';
+const TILE_SIZE = 256;
+const MAX_ZOOM = 16;
+
+const project = (coords: Coordinates, zoom: number) => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.sin((coords.latitude * Math.PI) / 180);
+  return {
+    x: ((coords.longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+};
+
+/**
+ * Lays out a static map of the given points on a width x height canvas:
+ * the tiles to draw and where each numbered marker sits, all in percentages.
+ */
+export const layoutStaticMap = (
+  points: { coordinates: Coordinates; label: string }[],
+  width: number,
+  height: number,
+  padding = 48
+): StaticMapLayout => {
+  if (points.length === 0) return { tiles: [], markers: [] };
+
+  // Highest zoom at which every point fits inside the padded canvas
+  let zoom = MAX_ZOOM;
+  for (; zoom > 1; zoom--) {
+    const projected = points.map(p => project(p.coordinates, zoom));
+    const spanX = Math.max(...projected.map(p => p.x)) - Math.min(...projected.map(p => p.x));
+    const spanY = Math.max(...projected.map(p => p.y)) - Math.min(...projected.map(p => p.y));
+    if (spanX <= width - padding * 2 && spanY <= height - padding * 2) break;
+  }
+
+  const projected = points.map(p => project(p.coordinates, zoom));
+  const centerX = (Math.max(...projected.map(p => p.x)) + Math.min(...projected.map(p => p.x))) / 2;
+  const centerY = (Math.max(...projected.map(p => p.y)) + Math.min(...projected.map(p => p.y))) / 2;
+  const originX = centerX - width / 2;
+  const originY = centerY - height / 2;
+
+  const tileCount = Math.pow(2, zoom);
+  const tiles: StaticMapTile[] = [];
+  for (let tx = Math.floor(originX / TILE_SIZE); tx * TILE_SIZE < originX + width; tx++) {
+    for (let ty = Math.floor(originY / TILE_SIZE); ty * TILE_SIZE < originY + height; ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        url: TILE_URL.replace('{z}', String(zoom)).replace('{x}', String(wrappedX)).replace('{y}', String(ty)),
+        left: ((tx * TILE_SIZE - originX) / width) * 100,
+        top: ((ty * TILE_SIZE - originY) / height) * 100,
+        width: (TILE_SIZE / width) * 100,
+        height: (TILE_SIZE / height) * 100,
+      });
+    }
+  }
+
+  const markers = points.map((p, i) => ({
+    label: p.label,
+    left: ((projected[i].x - originX) / width) * 100,
+    top: ((projected[i].y - originY) / height) * 100,
+  }));
+
+  return { tiles, markers };
+};
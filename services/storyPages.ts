@@ -0,0 +1,75 @@
+import { Guide, Place, StaticMapLayout, StoryPage } from "../types";
+import { layoutStaticMap } from "./staticMap";
+import { buildTimeline, formatTime, hasSchedule } from "./itinerary";
+
+// Logical story canvas; both renderers scale it to their viewport
+export const STORY_WIDTH = 360;
+export const STORY_HEIGHT = 640;
+
+// Markers keep the place's position in its day, even when earlier places have no coordinates
+const layoutDayMap = (places: Place[]): StaticMapLayout | undefined => {
+  const mapPoints = places.flatMap((p, idx) =>
+    p.coordinates ? [{ coordinates: p.coordinates, label: String(idx + 1) }] : []
+  );
+  return mapPoints.length > 0 ? layoutStaticMap(mapPoints, STORY_WIDTH, STORY_HEIGHT) : undefined;
+};
+
+export const buildStoryPages = (guide: Guide): StoryPage[] => {
+  const pages: StoryPage[] = [{
+    id: 'cover',
+    type: 'cover',
+    title: guide.title,
+    text: guide.author.name,
+    mediaUrl: guide.coverImage,
+  }];
+
+  // A day trip gets one route map up front; longer trips open each day with a divider showing that day's route
+  const isMultiDay = guide.days.length > 1;
+  const routeMap = isMultiDay ? undefined : layoutDayMap(guide.days[0]?.places || []);
+  if (routeMap) {
+    pages.push({
+      id: 'map',
+      type: 'map',
+      title: 'The Route',
+      text: guide.locationName,
+      map: routeMap,
+    });
+  }
+
+  let placeCount = 0;
+  guide.days.forEach((day, dayIdx) => {
+    if (isMultiDay) {
+      pages.push({
+        id: `day-${dayIdx + 1}`,
+        type: 'day',
+        title: day.title.trim() || `Day ${dayIdx + 1}`,
+        text: day.notes,
+        dayLabel: `Day ${dayIdx + 1} of ${guide.days.length}`,
+        map: layoutDayMap(day.places),
+      });
+    }
+
+    const timeline = hasSchedule(day.places) ? buildTimeline(day.places) : null;
+    day.places.forEach((place, idx) => {
+      const stop = timeline?.[idx];
+      pages.push({
+        id: `place-${++placeCount}`,
+        type: 'place',
+        title: place.name,
+        text: place.description,
+        mediaUrl: place.imageUrl,
+        placeData: place,
+        time: stop ? `${formatTime(stop.start)} – ${formatTime(stop.end)}` : undefined,
+      });
+    });
+  });
+
+  pages.push({
+    id: 'end',
+    type: 'end',
+    title: 'The End',
+    text: 'Thanks for exploring with us.',
+  });
+
+  return pages;
+};
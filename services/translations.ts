@@ -0,0 +1,142 @@
+import { Guide, GuideText, GuideTranslation } from "../types";
+import { mapPlaces } from "./guideDays";
+import { hashString } from "./utils";
+
+/**
+ * A guide is written in one language and may carry translations of its text.
+ * Names of places are only translated when they are descriptions ("Viewpoint over
+ * the river"), never when they are proper names; addresses are never translated.
+ */
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'es', label: 'Español' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt', label: 'Português' },
+  { code: 'pt-BR', label: 'Português (Brasil)' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'pl', label: 'Polski' },
+  { code: 'sv', label: 'Svenska' },
+  { code: 'tr', label: 'Türkçe' },
+  { code: 'el', label: 'Ελληνικά' },
+  { code: 'ru', label: 'Русский' },
+  { code: 'uk', label: 'Українська' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+  { code: 'zh-CN', label: '简体中文' },
+  { code: 'zh-TW', label: '繁體中文' },
+];
+
+export const isSupportedLanguage = (code: string): boolean => LANGUAGES.some(l => l.code === code);
+
+export const languageLabel = (code: string): string => LANGUAGES.find(l => l.code === code)?.label || code;
+
+export const guideLanguage = (guide: Guide): string => guide.language || DEFAULT_LANGUAGE;
+
+// The original language first, then every translation
+export const guideLanguages = (guide: Guide): string[] =>
+  [guideLanguage(guide), ...(guide.translations || []).map(t => t.language)];
+
+/**
+ * Fingerprint of every translatable entry of the guide: "title", then one per day
+ * that has a title or notes and one per place, keyed by id.
+ */
+export const sourceHashes = (guide: Guide): Record<string, string> => {
+  const hashes: Record<string, string> = { title: hashString(guide.title) };
+  guide.days.forEach(day => {
+    if (day.title || day.notes) hashes[day.id] = hashString(`${day.title}\n${day.notes || ''}`);
+    day.places.forEach(place => {
+      hashes[place.id] = hashString(`${place.name}\n${place.description}`);
+    });
+  });
+  return hashes;
+};
+
+// Entries changed since they were translated, or never translated at all
+export const outdatedEntries = (guide: Guide, translation: GuideTranslation): string[] =>
+  Object.entries(sourceHashes(guide))
+    .filter(([key, hash]) => translation.sources[key] !== hash)
+    .map(([key]) => key);
+
+// What to send for translation; only the given entries when `keys` is set. The title always goes along for context
+export const guideText = (guide: Guide, keys?: string[]): GuideText => {
+  const wanted = (key: string) => !keys || keys.includes(key);
+  return {
+    title: guide.title,
+    days: guide.days
+      .filter(day => (day.title || day.notes) && wanted(day.id))
+      .map(day => ({ id: day.id, title: day.title || undefined, notes: day.notes })),
+    places: guide.days.flatMap(day => day.places)
+      .filter(place => wanted(place.id))
+      .map(place => ({ id: place.id, name: place.name, description: place.description })),
+  };
+};
+
+/**
+ * Folds what the AI returned into the translation, on top of the entries already
+ * there (hand edits included). `guide` is the guide as it was sent, so the entries
+ * remember which version of the original they translate. Entries of removed days
+ * and places are dropped.
+ */
+export const mergeTranslation = (
+  guide: Guide,
+  language: string,
+  translated: GuideText,
+  previous?: GuideTranslation
+): GuideTranslation => {
+  const hashes = sourceHashes(guide);
+  const dayIds = new Set(guide.days.map(d => d.id));
+  const placeIds = new Set(guide.days.flatMap(d => d.places.map(p => p.id)));
+  const keep = <T,>(entries: Record<string, T>, ids: Set<string>) =>
+    Object.fromEntries(Object.entries(entries).filter(([id]) => ids.has(id)));
+
+  const days = keep(previous?.days || {}, dayIds);
+  const places = keep(previous?.places || {}, placeIds);
+  const sources = Object.fromEntries(Object.entries(previous?.sources || {}).filter(([key]) => key in hashes));
+
+  // The title is sent along every time, but a reviewed one is kept
+  const retitle = !!translated.title?.trim() && (!previous || previous.sources.title !== hashes.title);
+  const title = retitle ? translated.title.trim() : previous?.title || guide.title;
+  if (retitle) sources.title = hashes.title;
+  translated.days.forEach(day => {
+    if (!dayIds.has(day.id)) return;
+    days[day.id] = { title: day.title?.trim() || undefined, notes: day.notes?.trim() || undefined };
+    sources[day.id] = hashes[day.id];
+  });
+  translated.places.forEach(place => {
+    if (!placeIds.has(place.id) || !place.name?.trim()) return;
+    places[place.id] = { name: place.name.trim(), description: place.description?.trim() || '' };
+    sources[place.id] = hashes[place.id];
+  });
+
+  return { language, title, days, places, sources, updatedAt: new Date().toISOString() };
+};
+
+/**
+ * The guide as readers of `language` see it. Anything not translated yet shows in
+ * the original; addresses, coordinates and photos are shared by every language.
+ */
+export const localizeGuide = (guide: Guide, language: string): Guide => {
+  const translation = guide.translations?.find(t => t.language === language);
+  if (!translation || language === guideLanguage(guide)) return guide;
+
+  const localizedDays = guide.days.map(day => {
+    const text = translation.days[day.id];
+    return text ? { ...day, title: text.title || day.title, notes: text.notes || day.notes } : day;
+  });
+  return {
+    ...guide,
+    language,
+    title: translation.title || guide.title,
+    days: mapPlaces(localizedDays, place => {
+      const text = translation.places[place.id];
+      return text ? { ...place, name: text.name || place.name, description: text.description || place.description } : place;
+    }),
+  };
+};
@@ -0,0 +1,81 @@
+import { Coordinates, Guide } from "../types";
+
+export const dataUriToBlob = (dataUri: string): Blob => {
+  const [header, data] = dataUri.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUri = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Bare base64 payload, as the AI endpoints take images
+export const blobToBase64 = async (blob: Blob): Promise<string> => (await blobToDataUri(blob)).split(',')[1];
+
+export const extensionForMimeType = (mimeType: string): string =>
+  mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'bin';
+
+// Cheap fingerprint to notice when a photo changed without keeping a copy of it
+export const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// File name for something downloaded from a guide, e.g. "lisbon-in-a-day.gpx", or "lisbon-in-a-day.fr.gpx" for a translated guide
+export const guideFileName = (guide: Guide, extension: string): string => {
+  const name = guide.title.replace(/[^\w\-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || guide.id;
+  const language = guide.translations?.length ? `.${guide.language || 'en'}` : '';
+  return `${name}${language}.${extension}`;
+};
+
+// Hands `blob` to the browser as a download
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Local calendar date as YYYY-MM-DD (toISOString would shift it to UTC)
+export const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Copy of `items` with the item at `from` moved to index `to`
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export const EARTH_RADIUS_KM = 6371;
+
+// Great-circle (haversine) distance
+export const distanceKm = (a: Coordinates, b: Coordinates): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
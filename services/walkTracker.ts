@@ -0,0 +1,91 @@
+import { Coordinates, Guide, GuideWalk, Place, PositionFix } from "../types";
+import { allPlaces } from "./guideDays";
+import { generateId } from "./guideRepository";
+import { distanceKm } from "./utils";
+
+/**
+ * Walking a guide: the stops in visiting order, which one is next, and the
+ * track walked so far. Position fixes come from geoService.watchPosition;
+ * reaching the next stop's geofence moves on to the one after it.
+ */
+
+// How close counts as being at a stop
+export const ARRIVAL_RADIUS_M = 30;
+// GPS accuracy widens the geofence, up to this much
+const MAX_ACCURACY_ALLOWANCE_M = 20;
+// Fixes closer than this to the last track point only add noise
+const MIN_TRACK_STEP_M = 5;
+
+export interface WalkState {
+  startedAt: string;
+  stops: Place[]; // located places, day by day in visiting order
+  nextIndex: number; // stops.length once every stop is done
+  arrivals: Record<string, string>;
+  track: PositionFix[];
+  position: PositionFix | null;
+}
+
+export const startWalk = (guide: Guide): WalkState => ({
+  startedAt: new Date().toISOString(),
+  stops: allPlaces(guide.days).filter(p => p.coordinates),
+  nextIndex: 0,
+  arrivals: {},
+  track: [],
+  position: null,
+});
+
+export const nextStop = (walk: WalkState): Place | null => walk.stops[walk.nextIndex] || null;
+
+// Compass bearing from `from` to `to`, 0 is north, clockwise
+export const bearingDegrees = (from: Coordinates, to: Coordinates): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLng = toRad(to.longitude - from.longitude);
+  const y = Math.sin(dLng) * Math.cos(toRad(to.latitude));
+  const x = Math.cos(toRad(from.latitude)) * Math.sin(toRad(to.latitude))
+    - Math.sin(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const compassPoint = (bearing: number): string => COMPASS_POINTS[Math.round(bearing / 45) % 8];
+
+export const trackDistanceKm = (track: Coordinates[]): number =>
+  track.slice(1).reduce((sum, point, i) => sum + distanceKm(track[i], point), 0);
+
+/**
+ * Takes in a new position: extends the track and, inside the next stop's
+ * geofence, records the arrival and moves on to the following stop.
+ */
+export const updateWalk = (walk: WalkState, fix: PositionFix): WalkState => {
+  const last = walk.track[walk.track.length - 1];
+  const track = !last || distanceKm(last, fix) * 1000 >= MIN_TRACK_STEP_M ? [...walk.track, fix] : walk.track;
+
+  const stop = nextStop(walk);
+  const radius = ARRIVAL_RADIUS_M + Math.min(fix.accuracy || 0, MAX_ACCURACY_ALLOWANCE_M);
+  if (stop && distanceKm(fix, stop.coordinates!) * 1000 <= radius) {
+    return {
+      ...walk,
+      track,
+      position: fix,
+      nextIndex: walk.nextIndex + 1,
+      arrivals: { ...walk.arrivals, [stop.id]: new Date(fix.timestamp).toISOString() },
+    };
+  }
+  return { ...walk, track, position: fix };
+};
+
+// Manual control for stops that are closed, skipped or have no reachable spot
+export const skipStop = (walk: WalkState, step: 1 | -1): WalkState => ({
+  ...walk,
+  nextIndex: Math.min(Math.max(walk.nextIndex + step, 0), walk.stops.length),
+});
+
+export const finishWalk = (walk: WalkState): GuideWalk => ({
+  id: generateId(),
+  startedAt: walk.startedAt,
+  endedAt: new Date().toISOString(),
+  distanceKm: trackDistanceKm(walk.track),
+  track: walk.track,
+  arrivals: walk.arrivals,
+});
@@ -0,0 +1,102 @@
+import { ChildProcess, spawn } from 'child_process';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Guide, WordPressConfig } from '../types';
+import { publishGuideToWordPress } from './wordpressPublisher';
+
+// Runs against scripts/mock-wordpress.mjs on a port of its own
+const PORT = 18881;
+const SITE_URL = `http://localhost:${PORT}`;
+
+const config: WordPressConfig = {
+  siteUrl: SITE_URL,
+  username: 'admin',
+  applicationPassword: 'mock mock mock mock',
+  postType: 'posts',
+  postStatus: 'publish'
+};
+
+const photo = (text: string) => `data:image/gif;base64,${btoa(text)}`;
+
+const guide: Guide = {
+  id: 'g1',
+  title: 'Lisbon in a day',
+  author: { id: 'u1', name: 'Ana', avatar: '' },
+  days: [{
+    id: 'd1',
+    title: '',
+    places: [
+      { id: 'p1', name: 'Miradouro', description: 'The view', imageUrl: photo('cover'), gallery: [photo('cover'), photo('sunset')] },
+      { id: 'p2', name: 'Tram 28', description: 'The ride', imageUrl: 'https://example.com/tram.jpg' }
+    ]
+  }],
+  coverImage: photo('cover'),
+  locationName: 'Lisbon',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  status: 'draft'
+};
+
+// The publisher's requests, as "METHOD path"
+const recordRequests = () => {
+  const requests: string[] = [];
+  const recordingFetch: typeof fetch = (input, init) => {
+    requests.push(`${init?.method || 'GET'} ${new URL(String(input)).pathname.replace('/wp-json/wp/v2', '')}`);
+    return fetch(input, init);
+  };
+  return { requests, fetch: recordingFetch };
+};
+
+let server: ChildProcess;
+
+beforeAll(async () => {
+  server = spawn(process.execPath, ['scripts/mock-wordpress.mjs'], { env: { ...process.env, MOCK_WP_PORT: String(PORT) } });
+  await new Promise<void>((resolve, reject) => {
+    server.stdout!.on('data', chunk => String(chunk).includes('listening') && resolve());
+    server.on('exit', code => reject(new Error(`Mock WordPress exited with ${code}`)));
+  });
+});
+
+afterAll(() => {
+  server.kill();
+});
+
+describe('publishGuideToWordPress', () => {
+  it('uploads the photos, galleries included, and creates the post', async () => {
+    const { requests, fetch } = recordRequests();
+    const published = await publishGuideToWordPress(guide, config, { fetch });
+
+    expect(requests).toEqual(['POST /media', 'POST /media', 'POST /posts']);
+    expect(published.status).toBe('published');
+    expect(published.publication).toMatchObject({ provider: 'wordpress', siteUrl: SITE_URL, postType: 'posts' });
+    expect(published.publication!.url).toBe(`${SITE_URL}/?p=${published.publication!.postId}`);
+    expect(Object.keys(published.publication!.media)).toHaveLength(2);
+    expect(published.publication!.media.p1.url).toMatch(`${SITE_URL}/wp-content/uploads/`);
+  });
+
+  it('updates the same post on republish and reuses unchanged photos', async () => {
+    const first = await publishGuideToWordPress(guide, config);
+    const { requests, fetch } = recordRequests();
+    const second = await publishGuideToWordPress({ ...first, title: 'Lisbon, slowly' }, config, { fetch });
+
+    expect(requests).toEqual([`POST /posts/${first.publication!.postId}`]);
+    expect(second.publication!.postId).toBe(first.publication!.postId);
+    expect(second.publication!.media).toEqual(first.publication!.media);
+  });
+
+  it('creates a new post when the previous one no longer exists', async () => {
+    const first = await publishGuideToWordPress(guide, config);
+    const deleted = { ...first, publication: { ...first.publication!, postId: 9999 } };
+    const { requests, fetch } = recordRequests();
+    const republished = await publishGuideToWordPress(deleted, config, { fetch });
+
+    expect(requests).toEqual(['POST /posts/9999', 'POST /posts']);
+    expect(republished.publication!.postId).not.toBe(9999);
+    expect(republished.status).toBe('published');
+  });
+
+  it('keeps a guide posted as a draft unpublished', async () => {
+    const drafted = await publishGuideToWordPress(guide, { ...config, postStatus: 'draft' });
+
+    expect(drafted.status).toBe('draft');
+    expect(drafted.publication!.postId).toBeGreaterThan(0);
+  });
+});
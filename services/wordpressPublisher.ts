@@ -0,0 +1,279 @@
+import { Guide, GuideDay, GuidePublication, Place, PublishedMedia, WordPressConfig } from "../types";
+import { renderAmpStory } from "./ampStoryExporter";
+import { buildStoryPages } from "./storyPages";
+import { buildTimeline, formatTime, hasSchedule } from "./itinerary";
+import { escapeHtml, extensionForMimeType, hashString } from "./utils";
+import { isStoredPhotoUrl, loadImageBlob } from "./guideRepository";
+import { applyLocationPrivacy, stripImageMetadata } from "./privacy";
+import { allPlaces, dayHeading } from "./guideDays";
+
+const CONFIG_STORAGE_KEY = 'a-day-today:wordpress';
+
+export type PublishStep = 'config' | 'auth' | 'media' | 'post';
+
+export class WordPressPublishError extends Error {
+  step: PublishStep;
+  status?: number;
+  code?: string;
+
+  constructor(message: string, step: PublishStep, status?: number, code?: string) {
+    super(message);
+    this.name = 'WordPressPublishError';
+    this.step = step;
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface PublishOptions {
+  // Injectable so the publisher can run against a mock server or a stub
+  fetch?: typeof fetch;
+  onProgress?: (message: string) => void;
+}
+
+export const DEFAULT_WORDPRESS_CONFIG: WordPressConfig = {
+  siteUrl: '',
+  username: '',
+  applicationPassword: '',
+  postType: 'posts',
+  postStatus: 'publish'
+};
+
+export const loadWordPressConfig = (): WordPressConfig | null => {
+  try {
+    const raw = localStorage.getItem(CONFIG_STORAGE_KEY);
+    return raw ? { ...DEFAULT_WORDPRESS_CONFIG, ...JSON.parse(raw) } : null;
+  } catch (e) {
+    console.warn("Could not read WordPress settings", e);
+    return null;
+  }
+};
+
+export const saveWordPressConfig = (config: WordPressConfig) => {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
+
+const normalizeSiteUrl = (siteUrl: string) => siteUrl.trim().replace(/\/+$/, '');
+
+const STEP_LABELS: Record<PublishStep, string> = {
+  config: 'WordPress settings',
+  auth: 'WordPress sign-in',
+  media: 'Photo upload',
+  post: 'Saving the post'
+};
+
+const wpRequest = async <T>(
+  config: WordPressConfig,
+  fetchImpl: typeof fetch,
+  step: PublishStep,
+  path: string,
+  init: RequestInit = {}
+): Promise<T> => {
+  const siteUrl = normalizeSiteUrl(config.siteUrl);
+  let response: Response;
+  try {
+    response = await fetchImpl(`${siteUrl}/wp-json/wp/v2/${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Basic ${btoa(`${config.username}:${config.applicationPassword.replace(/\s+/g, '')}`)}`,
+        ...(init.headers || {})
+      }
+    });
+  } catch (e) {
+    throw new WordPressPublishError(
+      `${STEP_LABELS[step]} failed: could not reach ${siteUrl}. Check the site URL and that its REST API accepts requests from this app.`,
+      step
+    );
+  }
+
+  if (!response.ok) {
+    let code: string | undefined;
+    let detail: string | undefined;
+    try {
+      const body = await response.json();
+      code = body?.code;
+      detail = body?.message;
+    } catch (e) {
+      // Not a WordPress error body (proxy page, plain text...)
+    }
+    const isAuthError = response.status === 401 || response.status === 403;
+    throw new WordPressPublishError(
+      isAuthError
+        ? `${STEP_LABELS.auth} failed: ${detail || 'the username or application password was rejected.'}`
+        : `${STEP_LABELS[step]} failed (${response.status}): ${detail || response.statusText}`,
+      isAuthError ? 'auth' : step,
+      response.status,
+      code
+    );
+  }
+
+  return response.json();
+};
+
+const validateConfig = (config: WordPressConfig) => {
+  if (!config.siteUrl.trim()) throw new WordPressPublishError("Add your WordPress site URL in the publish settings.", 'config');
+  if (!/^https?:\/\//i.test(config.siteUrl.trim())) throw new WordPressPublishError("The WordPress site URL must start with http:// or https://.", 'config');
+  if (!config.username.trim() || !config.applicationPassword.trim()) {
+    throw new WordPressPublishError("Add a WordPress username and application password in the publish settings.", 'config');
+  }
+};
+
+export const testWordPressConnection = async (config: WordPressConfig, options: PublishOptions = {}): Promise<string> => {
+  validateConfig(config);
+  const me = await wpRequest<{ name: string }>(config, options.fetch || fetch, 'auth', 'users/me?context=edit');
+  return me.name;
+};
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^\w\-]+/g, '-').replace(/^-+|-+$/g, '') || 'guide';
+
+// A place's cover is keyed by the place id, its other gallery photos by place id and photo
+const mediaKey = (place: Place, url: string) => url === place.imageUrl ? place.id : `${place.id}:${hashString(url)}`;
+
+const mapsSearchUrl = (lat: number, lng: number) => `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`;
+
+const renderDaySections = (day: GuideDay, resolveImage: (url: string) => string, headingLevel: number): string[] => {
+  const h = `h${headingLevel}`;
+  const timeline = hasSchedule(day.places) ? buildTimeline(day.places) : null;
+  const sections = day.places.map((place, idx) => {
+    const parts = [`<${h}>${idx + 1}. ${escapeHtml(place.name)}</${h}>`];
+    const stop = timeline?.[idx];
+    if (stop) parts.push(`<p><strong>${formatTime(stop.start)} – ${formatTime(stop.end)}</strong></p>`);
+    if (place.imageUrl) {
+      parts.push(`<figure class="wp-block-image"><img src="${escapeHtml(resolveImage(place.imageUrl))}" alt="${escapeHtml(place.name)}"/></figure>`);
+    }
+    const morePhotos = (place.gallery || []).filter(url => url !== place.imageUrl);
+    if (morePhotos.length > 0) {
+      parts.push(`<figure class="wp-block-gallery has-nested-images">${morePhotos
+        .map(url => `<figure class="wp-block-image"><img src="${escapeHtml(resolveImage(url))}" alt="${escapeHtml(place.name)}"/></figure>`)
+        .join('')}</figure>`);
+    }
+    parts.push(`<p>${escapeHtml(place.description || '')}</p>`);
+    if (place.address) parts.push(`<p><em>${escapeHtml(place.address)}</em></p>`);
+    if (place.coordinates) {
+      parts.push(`<p><a href="${mapsSearchUrl(place.coordinates.latitude, place.coordinates.longitude)}">View on map</a></p>`);
+    }
+    return parts.join('\n');
+  });
+
+  const routeStops = day.places.filter(p => p.coordinates).map(p => `${p.coordinates!.latitude},${p.coordinates!.longitude}`);
+  if (routeStops.length > 1) {
+    sections.push(`<${h}>The Route</${h}>\n<p><a href="https://www.google.com/maps/dir/${routeStops.join('/')}">Open the whole route in Google Maps</a></p>`);
+  }
+  return sections;
+};
+
+// A day trip lists its stops directly; longer trips get a heading per day with the stops below it
+const renderPostContent = (guide: Guide, resolveImage: (url: string) => string): string => {
+  if (guide.days.length === 1) {
+    return [
+      `<p>A day in ${escapeHtml(guide.locationName)}, curated by ${escapeHtml(guide.author.name)}.</p>`,
+      ...renderDaySections(guide.days[0], resolveImage, 2)
+    ].join('\n\n');
+  }
+  const days = guide.days.map((day, idx) => [
+    `<h2>${escapeHtml(dayHeading(day, idx))}</h2>`,
+    ...(day.notes ? [`<p>${escapeHtml(day.notes)}</p>`] : []),
+    ...renderDaySections(day, resolveImage, 3)
+  ].join('\n\n'));
+  return [`<p>${guide.days.length} days in ${escapeHtml(guide.locationName)}, curated by ${escapeHtml(guide.author.name)}.</p>`, ...days].join('\n\n');
+};
+
+/**
+ * Publishes a guide to WordPress: uploads the guide's own photos, galleries included, as media (without metadata), then creates the post,
+ * or updates it when the guide was already published to the same site.
+ * Returns the guide with its publication recorded, and marked as published once WordPress says the post is live;
+ * persisting it is up to the caller.
+ */
+export const publishGuideToWordPress = async (guide: Guide, config: WordPressConfig, options: PublishOptions = {}): Promise<Guide> => {
+  validateConfig(config);
+  const fetchImpl = options.fetch || fetch;
+  const report = options.onProgress || (() => {});
+  const siteUrl = normalizeSiteUrl(config.siteUrl);
+
+  const previous = guide.publication?.siteUrl === siteUrl && guide.publication.postType === config.postType
+    ? guide.publication
+    : undefined;
+
+  // 1. Upload the guide's own photos, covers and galleries; unchanged ones from a previous publish are reused
+  const media: Record<string, PublishedMedia> = {};
+  const places = allPlaces(guide.days);
+  // A web story shows one photo per stop, so galleries only go up with regular posts
+  const withGalleries = config.postType !== 'web-story';
+  const uploads = places.flatMap(place =>
+    [...new Set([place.imageUrl, ...(withGalleries && place.gallery || [])])]
+      .filter((url): url is string => !!url && (url.startsWith('data:') || isStoredPhotoUrl(url)))
+      .map(url => ({ place, url, key: mediaKey(place, url) }))
+  );
+  for (const [idx, { place, url, key }] of uploads.entries()) {
+    // Salted so media uploaded before metadata was stripped gets replaced
+    const sourceHash = hashString(`stripped:${url}`);
+    const existing = previous?.media[key];
+    if (existing && existing.sourceHash === sourceHash) {
+      media[key] = existing;
+      continue;
+    }
+
+    const loaded = await loadImageBlob(url);
+    if (!loaded) continue;
+    const blob = await stripImageMetadata(loaded);
+    report(`Uploading photo ${idx + 1} of ${uploads.length}...`);
+    const uploaded = await wpRequest<{ id: number; source_url: string }>(config, fetchImpl, 'media', 'media', {
+      method: 'POST',
+      headers: {
+        'Content-Type': blob.type,
+        'Content-Disposition': `attachment; filename="${slugify(place.name)}-${key.replace(':', '-')}.${extensionForMimeType(blob.type)}"`
+      },
+      body: blob
+    });
+    media[key] = { mediaId: uploaded.id, url: uploaded.source_url, sourceHash };
+  }
+
+  const uploadedUrlFor = (url: string) => {
+    const upload = uploads.find(u => u.url === url);
+    return (upload && media[upload.key]?.url) || url;
+  };
+  const coverPlace = places.find(p => p.imageUrl === guide.coverImage);
+
+  // 2. Create or update the post itself, with private places blurred
+  const publicGuide = applyLocationPrivacy(guide);
+  const content = config.postType === 'web-story'
+    ? renderAmpStory(publicGuide, buildStoryPages(publicGuide), { resolveMediaUrl: uploadedUrlFor })
+    : renderPostContent(publicGuide, uploadedUrlFor);
+
+  const payload = JSON.stringify({
+    title: guide.title,
+    content,
+    status: config.postStatus,
+    ...(coverPlace && media[coverPlace.id] ? { featured_media: media[coverPlace.id].mediaId } : {})
+  });
+  const postInit: RequestInit = { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: payload };
+
+  let post: { id: number; link: string; status: string };
+  if (previous) {
+    report('Updating the post...');
+    try {
+      post = await wpRequest(config, fetchImpl, 'post', `${config.postType}/${previous.postId}`, postInit);
+    } catch (e) {
+      // The post was deleted on the WordPress side: publish it again as a new one
+      if (!(e instanceof WordPressPublishError) || e.status !== 404) throw e;
+      report('Previous post not found, creating a new one...');
+      post = await wpRequest(config, fetchImpl, 'post', config.postType, postInit);
+    }
+  } else {
+    report('Creating the post...');
+    post = await wpRequest(config, fetchImpl, 'post', config.postType, postInit);
+  }
+
+  const publication: GuidePublication = {
+    provider: 'wordpress',
+    siteUrl,
+    postType: config.postType,
+    postId: post.id,
+    url: post.link,
+    publishedAt: new Date().toISOString(),
+    media
+  };
+
+  // A draft or pending post isn't public yet, so the guide keeps its own status
+  return { ...guide, status: post.status === 'publish' ? 'published' : guide.status, publication };
+};
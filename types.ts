@@ -1,18 +1,58 @@
+import { Content } from "@google/genai";
+
 export interface Coordinates {
   latitude: number;
   longitude: number;
 }
 
+// A position reported while walking a guide
+export interface PositionFix extends Coordinates {
+  accuracy?: number; // meters
+  timestamp: number; // ms since epoch
+}
+
+export interface GeoLocation {
+  city: string;
+  region?: string; // first-level admin area: state, province, ...
+  country: string;
+  countryCode: string; // ISO 3166-1 alpha-2
+  distanceKm: number; // from the looked-up point to the city centre
+}
+
 export interface User {
   id: string;
   name: string;
   avatar: string;
+  bio?: string;
+  homeCity?: string;
 }
 
 export interface GroundingSource {
   title?: string;
   uri?: string;
   sourceType: 'search' | 'maps';
+  // Maps sources only
+  placeId?: string; // "places/{id}"
+  reviewSnippets?: ReviewSnippet[];
+  rating?: number; // what the grounded answer of a Maps lookup gave, 1 to 5
+}
+
+// A Google Maps review the model drew on, linked rather than copied
+export interface ReviewSnippet {
+  title?: string;
+  uri?: string;
+  author?: string;
+}
+
+// Where a place's Maps details came from: the grounding of the chat turn that added or changed it
+export interface PlaceGrounding {
+  provider: 'google-maps';
+  placeId?: string;
+  title?: string;
+  uri: string;
+  reviewSnippets?: ReviewSnippet[];
+  matchedBy: 'placeId' | 'name';
+  groundedAt: string; // ISO date-time
 }
 
 export interface ChatMessage {
@@ -20,8 +60,35 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
-  image?: string; // base64
+  image?: string; // usually a stored photo, "photo:<id>"; older transcripts hold data URIs
   groundingSources?: GroundingSource[];
+  changes?: GuideChange[]; // edits the AI made to the guide during this turn
+  stopped?: boolean; // generation was stopped by the user, `text` is partial
+}
+
+// The Guide Builder conversation of one guide, stored next to it
+export interface ChatTranscript {
+  guideId: string;
+  messages: ChatMessage[]; // what the user saw, photos and sources included
+  history: Content[]; // what the model remembers, possibly summarized
+  updatedAt: string;
+}
+
+// An uploaded photo kept in the browser, referenced from guides as "photo:<id>"
+export interface StoredPhoto {
+  id: string;
+  guideId: string;
+  web: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+export interface GuideChange {
+  kind: 'added' | 'updated' | 'removed' | 'retitled' | 'tagged';
+  placeId?: string;
+  summary: string;
 }
 
 export interface Place {
@@ -29,36 +96,138 @@ export interface Place {
   name: string;
   description: string;
   coordinates?: Coordinates;
+  approximate?: boolean; // private place: published with a rough position and no address
   imageUrl?: string;
+  gallery?: string[]; // every photo of the stop, imageUrl is the cover
   address?: string;
-  rating?: number;
+  rating?: number; // 1 to 5
+  ratingSource?: 'maps' | 'model'; // 'maps' when it came from a Google Maps lookup, 'model' when the AI gave it
   mapsUri?: string;
+  grounding?: PlaceGrounding;
+  startTime?: string; // "HH:MM", pins the stop in the day plan
+  durationMinutes?: number; // planned time at the stop
+}
+
+// One day of a guide, with its own stops in visiting order; a day trip has a single day
+export interface GuideDay {
+  id: string;
+  title: string; // may be empty, the day is then shown as "Day N"
+  notes?: string;
+  places: Place[];
 }
 
+export type EventCategory = 'art' | 'music' | 'food' | 'nightlife' | 'market' | 'festival' | 'sports' | 'family' | 'other';
+
 export interface LocalEvent {
   title: string;
   description: string;
-  date?: string;
+  date?: string; // ISO date (YYYY-MM-DD)
+  endDate?: string; // ISO date, only for multi-day events
   location?: string;
   url?: string;
+  category?: EventCategory;
 }
 
 export interface Guide {
   id: string;
   title: string;
   author: User;
-  places: Place[];
+  days: GuideDay[];
   coverImage: string;
   locationName: string;
   createdAt: string;
+  updatedAt?: string;
   status: 'draft' | 'published';
+  publication?: GuidePublication;
+  tags?: string[]; // vibes like "Art & Coffee", see guideTags
+  language?: string; // of the author's own text, "en" when unset
+  translations?: GuideTranslation[];
+  walks?: GuideWalk[];
+}
+
+// A recorded walk along the guide, see walkTracker
+export interface GuideWalk {
+  id: string;
+  startedAt: string;
+  endedAt: string;
+  distanceKm: number;
+  track: PositionFix[];
+  arrivals: Record<string, string>; // place id -> ISO time the walker got there
+}
+
+// The translatable text of a guide, as sent to the AI and returned by it; addresses never leave
+export interface GuideText {
+  title: string;
+  days: { id: string; title?: string; notes?: string }[];
+  places: { id: string; name: string; description: string }[];
+}
+
+// The guide's text in one more language, reviewed and hand-edited by the author
+export interface GuideTranslation {
+  language: string; // BCP 47 code: "fr", "pt-BR"...
+  title: string;
+  days: Record<string, { title?: string; notes?: string }>;
+  places: Record<string, { name: string; description: string }>;
+  // Hash of the original each entry was translated from ("title", day or place id), to spot outdated ones
+  sources: Record<string, string>;
+  updatedAt: string;
+}
+
+export interface WordPressConfig {
+  siteUrl: string;
+  username: string;
+  // WordPress Application Password (Users → Profile), not the login password
+  applicationPassword: string;
+  postType: 'posts' | 'web-story';
+  postStatus: 'publish' | 'draft';
+}
+
+export interface PublishedMedia {
+  mediaId: number;
+  url: string;
+  sourceHash: string;
+}
+
+// Where a guide lives remotely, so republishing updates instead of duplicating
+export interface GuidePublication {
+  provider: 'wordpress';
+  siteUrl: string;
+  postType: string;
+  postId: number;
+  url: string;
+  publishedAt: string;
+  media: Record<string, PublishedMedia>; // keyed by place id, gallery photos by place id and photo
+}
+
+export interface StaticMapTile {
+  url: string;
+  // Percentages of the map canvas, so any renderer can scale the layout
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface StaticMapMarker {
+  label: string;
+  left: number;
+  top: number;
 }
 
-// For the AMP Story Preview
+export interface StaticMapLayout {
+  tiles: StaticMapTile[];
+  markers: StaticMapMarker[];
+}
+
+// Shared by the React story preview and the AMP export
 export interface StoryPage {
-  type: 'cover' | 'place' | 'map' | 'end';
+  id: string;
+  type: 'cover' | 'place' | 'map' | 'day' | 'end';
   title?: string;
   text?: string;
   mediaUrl?: string;
   placeData?: Place;
+  time?: string; // "09:00 – 10:00" for place pages of scheduled guides
+  dayLabel?: string; // "Day 2 of 3" on the divider page opening each day
+  map?: StaticMapLayout;
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { aiProxyPlugin } from './server/aiProxy';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +11,12 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The Gemini key is only read by the /api/ai proxy and never reaches the bundle.
+      // Tests start their own proxy where they need one.
+      plugins: [react(), ...(process.env.VITEST ? [] : [aiProxyPlugin(env)])],
+      // Tests answer from fixtures/ai and never build a Gemini client
+      test: {
+        env: { AI_PROVIDER: 'fake' },
       },
       resolve: {
         alias: {